@@ -9,8 +9,30 @@ export default {
   'home.deselect_all': 'Deselect all',
   'home.export': 'Export',
   'home.import': 'Import',
+  'home.duplicate': '{file} is already in the library as {name}',
   'home.upload': 'Upload',
   'home.delete': 'Delete',
+  'home.all': 'All',
+  'home.status': 'Status',
+  'home.status.want_to_read': 'Want to read',
+  'home.status.reading': 'Reading',
+  'home.status.finished': 'Finished',
+  'home.status.abandoned': 'Abandoned',
+  'home.status.none': 'No status',
+  'home.rating': 'Rating',
+  'home.rating.none': 'No rating',
+  'home.shelf.add': 'Add to shelf',
+  'home.shelf.remove': 'Remove from {shelf}',
+  'home.tags.add': 'Add tags',
+  'home.tags.clear': 'Clear tags',
+  'home.metadata.edit': 'Edit metadata',
+  'home.sort.recently_read': 'Recently read',
+  'home.sort.title': 'Title',
+  'home.sort.author': 'Author',
+  'home.sort.percentage': 'Progress',
+  'home.search': 'Search in library',
+  'home.search.indexed': '{n} of {m} books indexed',
+  'home.search.no_results': 'No results',
 
   'toc.title': 'TOC',
   'toc.library': 'Library',
@@ -21,7 +43,26 @@ export default {
   'annotation.title': 'Annotation',
   'annotation.definitions': 'Definitions',
   'annotation.annotations': 'Annotations',
+  'annotation.orphaned': 'Not found in this edition',
+  'annotation.orphaned_hint':
+    'Annotations whose text is not found in the book, e.g. after it was replaced by another edition',
   'annotation.copy_as_markdown': 'Copy as Markdown',
+  'annotation.export_markdown': 'Export as Markdown file',
+  'annotation.export_web_annotations': 'Export as Web Annotations (JSON-LD)',
+  'annotation.type.highlight': 'Highlight',
+  'annotation.type.underline': 'Underline',
+  'annotation.type.strikethrough': 'Strikethrough',
+  'annotation.type.squiggly': 'Wavy underline',
+  'annotation.filter.type': 'Filter by type',
+  'annotation.filter.color': 'Filter by color',
+  'annotation.filter.all_types': 'All types',
+  'annotation.filter.all_colors': 'All colors',
+
+  'bookmark.title': 'Bookmarks',
+  'bookmark.add': 'Bookmark this page',
+  'bookmark.remove': 'Remove bookmark',
+  'bookmark.rename': 'Bookmark title',
+  'bookmark.rename_hint': 'Double-click to rename',
 
   'image.title': 'Image',
 
@@ -33,6 +74,12 @@ export default {
   'typography.page_view': 'Page View',
   'typography.page_view.single_page': 'Single Page',
   'typography.page_view.double_page': 'Double Page',
+  'typography.comic.fit': 'Fit',
+  'typography.comic.fit.page': 'Fit Page',
+  'typography.comic.fit.width': 'Fit Width',
+  'typography.comic.direction': 'Reading Direction',
+  'typography.comic.direction.ltr': 'Left to Right',
+  'typography.comic.direction.rtl': 'Right to Left',
   'typography.font_family': 'Font Family',
   'typography.font_size': 'Font Size',
   'typography.font_weight': 'Font Weight',
@@ -43,6 +90,153 @@ export default {
   'theme.source_color': 'Source Color',
   'theme.background_color': 'Background Color',
 
+  'opds.title': 'Catalogs',
+  'opds.catalog.add': 'Add Catalog',
+  'opds.catalog.url': 'URL',
+  'opds.catalog.title': 'Name',
+  'opds.catalog.username': 'Username',
+  'opds.catalog.password': 'Password',
+  'opds.catalog.save': 'Save',
+  'opds.catalog.remove': 'Remove Catalog',
+  'opds.catalog.remove_confirm': 'Remove this catalog?',
+  'opds.back': 'Back',
+  'opds.search': 'Search',
+  'opds.loading': 'Loading...',
+  'opds.empty': 'No entries',
+  'opds.page.previous': 'Previous',
+  'opds.page.next': 'Next',
+  'opds.open': 'Open',
+  'opds.downloading': 'Downloading...',
+  'opds.unsupported': 'No supported format',
+  'metadata.title': 'Edit Metadata',
+  'metadata.creators': 'Authors (one per line)',
+  'metadata.series': 'Series',
+  'metadata.series_index': 'Number',
+  'metadata.language': 'Language',
+  'metadata.publisher': 'Publisher',
+  'metadata.description': 'Description',
+  'metadata.cover': 'Cover',
+  'metadata.cover.upload': 'Upload image',
+  'metadata.cover.pick': 'Pick from book',
+  'metadata.cover.reset': 'Use original cover',
+  'metadata.reset': 'Reset all',
+  'metadata.save': 'Save',
+  'notebook.title': 'Notebook',
+  'notebook.search': 'Search highlights and notes',
+  'notebook.book': 'Filter by book',
+  'notebook.all_books': 'All books',
+  'notebook.from': 'From',
+  'notebook.to': 'To',
+  'notebook.sort': 'Sort',
+  'notebook.sort.newest': 'Newest',
+  'notebook.sort.oldest': 'Oldest',
+  'notebook.sort.book': 'Book',
+  'notebook.sort.color': 'Color',
+  'notebook.select': 'Select',
+  'notebook.select_all': 'Select all',
+  'notebook.total': '{n} annotations',
+  'notebook.selected': '{n} selected',
+  'notebook.recolor': 'Change color',
+  'notebook.delete': 'Delete',
+  'notebook.delete.confirm': 'Delete the selected annotations?',
+  'notebook.open': 'Open in the book',
+  'notebook.no_results': 'No matching annotations',
+  'notebook.empty': 'Annotations of your books will appear here',
+  'import.title': 'Import Annotations',
+  'import.description':
+    'Import highlights and notes of other readers into matching books of the library. The books have to be downloaded in this browser.',
+  'import.formats':
+    'Supported files are Kindle "My Clippings.txt", KOReader "metadata.epub.lua" in the ".sdr" folder of a book, annotations exported from the calibre viewer, and W3C Web Annotations (.jsonld).',
+  'import.book': 'Import into',
+  'import.book.match': 'Books matching the titles',
+  'import.file': 'Choose file',
+  'import.progress': 'Matching... {done} of {total} books',
+  'import.preview':
+    '{matched} highlights and {bookmarks} bookmarks to import, {duplicated} already annotated, {failed} not matched',
+  'import.import': 'Import',
+  'import.cancel': 'Cancel',
+  'import.imported': '{n} highlights imported',
+  'import.matches': 'To import',
+  'import.bookmark': 'Bookmark',
+  'import.failures': 'Not imported',
+  'import.reason.no_book': 'Book not in the library',
+  'import.reason.no_file': 'Book file not downloaded',
+  'import.reason.not_found': 'Text not found in the book',
+  'import.reason.no_highlight': 'Note without highlight',
+
+  'storage.title': 'Storage',
+  'storage.quota': '{usage} of {quota} used by this site',
+  'storage.library': 'Library: {size}',
+  'storage.persisted': 'Storage is persistent',
+  'storage.not_persisted':
+    'Storage may be cleared by the browser when space runs low',
+  'storage.persist': 'Make persistent',
+  'storage.book': 'Book',
+  'storage.file': 'File',
+  'storage.cover': 'Cover',
+  'storage.annotations': 'Annotations',
+  'storage.offloaded': 'Offloaded',
+  'storage.offload': 'Offload',
+  'storage.offload.confirm':
+    'Delete the file of this book? Progress and annotations are kept, and the file is downloaded again from the cloud or asked for when the book is opened.',
+  'storage.missing':
+    'The file of {name} was offloaded and is not available in the cloud.',
+  'storage.choose': 'Choose file',
+  'storage.mismatch': 'The chosen file is not {name}.',
+  'restore.title': 'Restore Backup',
+  'restore.summary': '{n} books in the backup',
+  'restore.invalid': 'Skipped malformed books: {names}',
+  'restore.apply_to_all': 'Apply to all',
+  'restore.action.merge': 'Merge',
+  'restore.action.replace': 'Replace',
+  'restore.action.skip': 'Skip',
+  'restore.action.add': 'Add',
+  'restore.local': 'Library',
+  'restore.backup': 'Backup',
+  'restore.result': 'Result',
+  'restore.progress': 'Progress',
+  'restore.updated_at': 'Last read',
+  'restore.annotations': 'Annotations',
+  'restore.definitions': 'Definitions',
+  'restore.cancel': 'Cancel',
+  'restore.restore': 'Restore',
+  'restore.failed': 'Restore failed: {error}',
+  'backup.title': 'Export Backup',
+  'backup.all': 'All books in the library',
+  'backup.selected': '{n} selected books',
+  'backup.files': 'Include book files',
+  'backup.incremental':
+    'Only books added or read since the last backup ({date})',
+  'backup.incremental.unavailable':
+    'Only books added or read since the last backup (no backup yet)',
+  'backup.cancel': 'Cancel',
+  'backup.export': 'Export',
+  'backup.packing': 'Exporting...',
+  'backup.failed': 'Export failed: {error}',
+  'backup.format': 'Format',
+  'backup.format.backup': 'Backup (restorable)',
+  'backup.format.markdown': 'Annotations as Markdown',
+  'backup.format.markdown.description':
+    'A Markdown file per book with annotations, e.g. for an Obsidian vault.',
+  'backup.format.web': 'Web Annotations',
+  'backup.format.web.description':
+    'Highlights, notes and bookmarks in the W3C Web Annotation format, which can be imported by other tools and into another library.',
+
+  'sync.title': 'Sync',
+  'sync.syncing': 'Syncing…',
+  'sync.now': 'Sync now',
+  'sync.last_sync': 'Last sync: {time}',
+  'sync.never': 'Not synced yet',
+  'sync.pending': '{n} books with changes to upload',
+  'sync.last_error': 'Sync failed: {error}',
+  'sync.retry': 'Retrying at {time}',
+  'sync.invalid': 'Skipped malformed books in data.json: {names}',
+  'sync.unknown': 'unknown error',
+  'sync.log': 'Log',
+  'sync.log.empty': 'Nothing synced in this session',
+  'sync.log.synced': 'Uploaded changes of {n} books',
+  'sync.log.failed': 'Failed: {error}',
+  'sync.log.offline': 'Offline, changes are kept until reconnected',
   'settings.title': 'Settings',
   'settings.language': 'Language',
   'settings.color_scheme': 'Color Scheme',
@@ -52,8 +246,46 @@ export default {
   'settings.synchronization.title': 'Synchronization',
   'settings.synchronization.authorize': 'Authorize',
   'settings.synchronization.unauthorize': 'Unauthorize',
+  'settings.synchronization.webdav_library_url': 'Library folder URL',
+  'settings.synchronization.webdav_library_url.description':
+    'Progress, annotations and book files are synced with this folder instead of Dropbox.',
+  'settings.sync_provider.title': 'Library sync',
+  'settings.sync_provider.dropbox': 'Dropbox',
+  'settings.sync_provider.webdav': 'WebDAV',
+  'settings.sync_provider.local': 'Local folder',
+  'settings.sync_provider.dropbox.description':
+    'Sync the library with the app folder of your Dropbox account.',
+  'settings.sync_provider.webdav.description':
+    'Sync the library with the WebDAV library folder configured below.',
+  'settings.sync_provider.local.description':
+    'Sync the library with a folder on this device, e.g. for testing. The folder has to be chosen again after reloading.',
+  'settings.sync_provider.local.choose': 'Choose folder',
+  'settings.sync_provider.local.none': 'No folder chosen',
+  'settings.encryption.title': 'Encryption',
+  'settings.encryption.description':
+    'Encrypt data.json and backups with a passphrase. Other devices need the same passphrase to read them.',
+  'settings.encryption.enabled':
+    'data.json and backups are encrypted. The passphrase can not be recovered if forgotten.',
+  'settings.encryption.passphrase': 'Passphrase',
+  'settings.encryption.new_passphrase': 'New passphrase',
+  'settings.encryption.confirmation': 'Confirm passphrase',
+  'settings.encryption.save': 'Encrypt',
+  'settings.encryption.change': 'Change passphrase',
+  'settings.encryption.remove': 'Remove encryption',
+  'settings.encryption.saved': 'Passphrase saved.',
+  'settings.encryption.removed': 'Encryption removed.',
   'settings.cache': 'Cache',
   'settings.cache.clear': 'Clear',
+  'settings.annotation_colors.title': 'Annotation colors',
+  'settings.annotation_colors.description':
+    'Colors to annotate with, optionally labeled, e.g. "important", "question" or "vocab".',
+  'settings.annotation_colors.label': 'Label',
+  'settings.annotation_colors.remove': 'Remove',
+  'settings.annotation_colors.add': 'Add color',
+  'settings.annotation_template.title': 'Annotation export template',
+  'settings.annotation_template.description':
+    'Markdown of each annotation in exported files. Variables: {variables}. Wrap text in {{#notes}}...{{/notes}} to keep it only if the variable is not empty.',
+  'settings.annotation_template.reset': 'Reset',
   'settings.text_selection_menu': 'Text Selection Menu',
   'settings.text_selection_menu.enable': 'Enable',
 
@@ -65,6 +297,10 @@ export default {
   'menu.create': 'Create',
   'menu.delete': 'Delete',
   'menu.update': 'Update',
+  'menu.highlight': 'Highlight',
+  'menu.underline': 'Underline',
+  'menu.strikethrough': 'Strikethrough',
+  'menu.squiggly': 'Wavy underline',
 
   'action.expand_all': 'Expand All',
   'action.collapse_all': 'Collapse All',
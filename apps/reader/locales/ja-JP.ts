@@ -9,8 +9,30 @@ export default {
   'home.deselect_all': 'すべて選択解除',
   'home.export': 'エクスポート',
   'home.import': 'インポート',
+  'home.duplicate': '{file} はすでにライブラリにあります：{name}',
   'home.upload': 'アップロード',
   'home.delete': '削除',
+  'home.all': 'すべて',
+  'home.status': 'ステータス',
+  'home.status.want_to_read': '読みたい',
+  'home.status.reading': '読書中',
+  'home.status.finished': '読了',
+  'home.status.abandoned': '中断',
+  'home.status.none': 'ステータスなし',
+  'home.rating': '評価',
+  'home.rating.none': '評価なし',
+  'home.shelf.add': '本棚に追加',
+  'home.shelf.remove': '{shelf} から削除',
+  'home.tags.add': 'タグを追加',
+  'home.tags.clear': 'タグをクリア',
+  'home.metadata.edit': 'メタデータを編集',
+  'home.sort.recently_read': '最近読んだ',
+  'home.sort.title': 'タイトル',
+  'home.sort.author': '著者',
+  'home.sort.percentage': '進捗',
+  'home.search': 'ライブラリ内を検索',
+  'home.search.indexed': '{m} 冊中 {n} 冊をインデックス済み',
+  'home.search.no_results': '結果がありません',
 
   'toc.title': '目次',
   'toc.library': 'ライブラリ',
@@ -21,7 +43,27 @@ export default {
   'annotation.title': '注釈',
   'annotation.definitions': '定義',
   'annotation.annotations': '注釈',
+  'annotation.orphaned': 'この版に見つからない注釈',
+  'annotation.orphaned_hint':
+    '本の中にテキストが見つからない注釈（別の版に置き換えた後など）',
   'annotation.copy_as_markdown': 'Markdownとしてコピー',
+  'annotation.export_markdown': 'Markdownファイルとしてエクスポート',
+  'annotation.export_web_annotations':
+    'Web Annotation（JSON-LD）としてエクスポート',
+  'annotation.type.highlight': 'ハイライト',
+  'annotation.type.underline': '下線',
+  'annotation.type.strikethrough': '取り消し線',
+  'annotation.type.squiggly': '波線',
+  'annotation.filter.type': '種類で絞り込む',
+  'annotation.filter.color': '色で絞り込む',
+  'annotation.filter.all_types': 'すべての種類',
+  'annotation.filter.all_colors': 'すべての色',
+
+  'bookmark.title': 'ブックマーク',
+  'bookmark.add': 'このページをブックマーク',
+  'bookmark.remove': 'ブックマークを削除',
+  'bookmark.rename': 'ブックマークのタイトル',
+  'bookmark.rename_hint': 'ダブルクリックで名前を変更',
 
   'image.title': '画像',
 
@@ -33,6 +75,12 @@ export default {
   'typography.page_view': 'ページ表示',
   'typography.page_view.single_page': '片ページ',
   'typography.page_view.double_page': '見開きページ',
+  'typography.comic.fit': 'フィット',
+  'typography.comic.fit.page': 'ページに合わせる',
+  'typography.comic.fit.width': '幅に合わせる',
+  'typography.comic.direction': '読む方向',
+  'typography.comic.direction.ltr': '左から右',
+  'typography.comic.direction.rtl': '右から左',
   'typography.font_family': 'フォントファミリー',
   'typography.font_size': 'フォントサイズ',
   'typography.font_weight': 'フォントウェイト',
@@ -43,6 +91,153 @@ export default {
   'theme.source_color': 'ソースカラー',
   'theme.background_color': '背景色',
 
+  'opds.title': 'カタログ',
+  'opds.catalog.add': 'カタログを追加',
+  'opds.catalog.url': 'URL',
+  'opds.catalog.title': '名前',
+  'opds.catalog.username': 'ユーザー名',
+  'opds.catalog.password': 'パスワード',
+  'opds.catalog.save': '保存',
+  'opds.catalog.remove': 'カタログを削除',
+  'opds.catalog.remove_confirm': 'このカタログを削除しますか？',
+  'opds.back': '戻る',
+  'opds.search': '検索',
+  'opds.loading': '読み込み中...',
+  'opds.empty': '項目がありません',
+  'opds.page.previous': '前へ',
+  'opds.page.next': '次へ',
+  'opds.open': '開く',
+  'opds.downloading': 'ダウンロード中...',
+  'opds.unsupported': '対応する形式がありません',
+  'metadata.title': 'メタデータを編集',
+  'metadata.creators': '著者（1行に1人）',
+  'metadata.series': 'シリーズ',
+  'metadata.series_index': '番号',
+  'metadata.language': '言語',
+  'metadata.publisher': '出版社',
+  'metadata.description': '説明',
+  'metadata.cover': '表紙',
+  'metadata.cover.upload': '画像をアップロード',
+  'metadata.cover.pick': '本から選択',
+  'metadata.cover.reset': '元の表紙を使用',
+  'metadata.reset': 'すべてリセット',
+  'metadata.save': '保存',
+  'notebook.title': 'ノート',
+  'notebook.search': 'ハイライトとメモを検索',
+  'notebook.book': '本で絞り込む',
+  'notebook.all_books': 'すべての本',
+  'notebook.from': '開始日',
+  'notebook.to': '終了日',
+  'notebook.sort': '並べ替え',
+  'notebook.sort.newest': '新しい順',
+  'notebook.sort.oldest': '古い順',
+  'notebook.sort.book': '本',
+  'notebook.sort.color': '色',
+  'notebook.select': '選択',
+  'notebook.select_all': 'すべて選択',
+  'notebook.total': '{n} 件の注釈',
+  'notebook.selected': '{n} 件を選択中',
+  'notebook.recolor': '色を変更',
+  'notebook.delete': '削除',
+  'notebook.delete.confirm': '選択した注釈を削除しますか？',
+  'notebook.open': '本で開く',
+  'notebook.no_results': '一致する注釈はありません',
+  'notebook.empty': '本の注釈がここに表示されます',
+  'import.title': '注釈のインポート',
+  'import.description':
+    '他のリーダーのハイライトとメモを、ライブラリ内の一致する本にインポートします。本はこのブラウザにダウンロードされている必要があります。',
+  'import.formats':
+    'Kindleの「My Clippings.txt」、本の「.sdr」フォルダにあるKOReaderの「metadata.epub.lua」、calibreビューアからエクスポートした注釈、W3C Web Annotation（.jsonld）に対応しています。',
+  'import.book': 'インポート先',
+  'import.book.match': 'タイトルが一致する本',
+  'import.file': 'ファイルを選択',
+  'import.progress': '照合中… {total}冊中{done}冊',
+  'import.preview':
+    'インポート予定 ハイライト {matched} 件・ブックマーク {bookmarks} 件、注釈済み {duplicated} 件、一致しない項目 {failed} 件',
+  'import.import': 'インポート',
+  'import.cancel': 'キャンセル',
+  'import.imported': '{n} 件のハイライトをインポートしました',
+  'import.matches': 'インポート予定',
+  'import.bookmark': 'ブックマーク',
+  'import.failures': 'インポートされなかった項目',
+  'import.reason.no_book': 'ライブラリに本がありません',
+  'import.reason.no_file': '本のファイルがダウンロードされていません',
+  'import.reason.not_found': '本の中にテキストが見つかりません',
+  'import.reason.no_highlight': 'ハイライトのないメモ',
+
+  'storage.title': 'ストレージ',
+  'storage.quota': 'このサイトの使用量：{usage} / {quota}',
+  'storage.library': 'ライブラリ：{size}',
+  'storage.persisted': 'ストレージは永続化されています',
+  'storage.not_persisted':
+    '空き容量が不足するとブラウザがストレージを削除する可能性があります',
+  'storage.persist': '永続化する',
+  'storage.book': '本',
+  'storage.file': 'ファイル',
+  'storage.cover': '表紙',
+  'storage.annotations': '注釈',
+  'storage.offloaded': 'オフロード済み',
+  'storage.offload': 'オフロード',
+  'storage.offload.confirm':
+    'この本のファイルを削除しますか？進捗と注釈は保持され、本を開くときにクラウドから再ダウンロードされるか、ファイルの選択を求められます。',
+  'storage.missing':
+    '{name} のファイルはオフロードされており、クラウドにもありません。',
+  'storage.choose': 'ファイルを選択',
+  'storage.mismatch': '選択したファイルは {name} ではありません。',
+  'restore.title': 'バックアップを復元',
+  'restore.summary': 'バックアップ内の本：{n} 冊',
+  'restore.invalid': '不正な本をスキップしました：{names}',
+  'restore.apply_to_all': 'すべてに適用',
+  'restore.action.merge': '統合',
+  'restore.action.replace': '置き換え',
+  'restore.action.skip': 'スキップ',
+  'restore.action.add': '追加',
+  'restore.local': 'ライブラリ',
+  'restore.backup': 'バックアップ',
+  'restore.result': '結果',
+  'restore.progress': '進捗',
+  'restore.updated_at': '最終閲覧',
+  'restore.annotations': '注釈',
+  'restore.definitions': '定義',
+  'restore.cancel': 'キャンセル',
+  'restore.restore': '復元',
+  'restore.failed': '復元に失敗しました：{error}',
+  'backup.title': 'バックアップをエクスポート',
+  'backup.all': 'ライブラリのすべての本',
+  'backup.selected': '選択した {n} 冊',
+  'backup.files': '本のファイルを含める',
+  'backup.incremental':
+    '前回のバックアップ（{date}）以降に追加または閲覧した本のみ',
+  'backup.incremental.unavailable':
+    '前回のバックアップ以降に追加または閲覧した本のみ（バックアップなし）',
+  'backup.cancel': 'キャンセル',
+  'backup.export': 'エクスポート',
+  'backup.packing': 'エクスポート中...',
+  'backup.failed': 'エクスポートに失敗しました：{error}',
+  'backup.format': '形式',
+  'backup.format.backup': 'バックアップ（復元可能）',
+  'backup.format.markdown': '注釈（Markdown）',
+  'backup.format.markdown.description':
+    '本ごとに注釈を含むMarkdownファイルを作成します。Obsidianの保管庫などに使えます。',
+  'backup.format.web': 'Web Annotation',
+  'backup.format.web.description':
+    'W3C Web Annotation形式のハイライト、メモ、ブックマーク。他のツールや別のライブラリにインポートできます。',
+
+  'sync.title': '同期',
+  'sync.syncing': '同期中…',
+  'sync.now': '今すぐ同期',
+  'sync.last_sync': '前回の同期：{time}',
+  'sync.never': 'まだ同期されていません',
+  'sync.pending': '{n} 冊の変更がアップロード待ちです',
+  'sync.last_error': '同期に失敗しました：{error}',
+  'sync.retry': '{time} に再試行します',
+  'sync.invalid': 'data.json の不正な本をスキップしました：{names}',
+  'sync.unknown': '不明なエラー',
+  'sync.log': 'ログ',
+  'sync.log.empty': 'このセッションではまだ同期されていません',
+  'sync.log.synced': '{n} 冊の変更をアップロードしました',
+  'sync.log.failed': '失敗：{error}',
+  'sync.log.offline': 'オフラインです。変更は再接続後にアップロードされます',
   'settings.title': '設定',
   'settings.language': '言語',
   'settings.color_scheme': '配色',
@@ -52,8 +247,46 @@ export default {
   'settings.synchronization.title': '同期',
   'settings.synchronization.authorize': '認証',
   'settings.synchronization.unauthorize': '認証解除',
+  'settings.synchronization.webdav_library_url': 'ライブラリフォルダの URL',
+  'settings.synchronization.webdav_library_url.description':
+    '進捗、注釈、本のファイルは Dropbox の代わりにこのフォルダと同期されます。',
+  'settings.sync_provider.title': 'ライブラリの同期',
+  'settings.sync_provider.dropbox': 'Dropbox',
+  'settings.sync_provider.webdav': 'WebDAV',
+  'settings.sync_provider.local': 'ローカルフォルダー',
+  'settings.sync_provider.dropbox.description':
+    'Dropbox アカウントのアプリフォルダーとライブラリを同期します。',
+  'settings.sync_provider.webdav.description':
+    '下で設定した WebDAV ライブラリフォルダーとライブラリを同期します。',
+  'settings.sync_provider.local.description':
+    'このデバイス上のフォルダーとライブラリを同期します（テスト用など）。再読み込み後はフォルダーを選び直す必要があります。',
+  'settings.sync_provider.local.choose': 'フォルダーを選択',
+  'settings.sync_provider.local.none': 'フォルダーが選択されていません',
+  'settings.encryption.title': '暗号化',
+  'settings.encryption.description':
+    'data.json とバックアップをパスフレーズで暗号化します。他のデバイスで読み込むには同じパスフレーズが必要です。',
+  'settings.encryption.enabled':
+    'data.json とバックアップは暗号化されています。パスフレーズを忘れると復元できません。',
+  'settings.encryption.passphrase': 'パスフレーズ',
+  'settings.encryption.new_passphrase': '新しいパスフレーズ',
+  'settings.encryption.confirmation': 'パスフレーズの確認',
+  'settings.encryption.save': '暗号化',
+  'settings.encryption.change': 'パスフレーズを変更',
+  'settings.encryption.remove': '暗号化を解除',
+  'settings.encryption.saved': 'パスフレーズを保存しました。',
+  'settings.encryption.removed': '暗号化を解除しました。',
   'settings.cache': 'キャッシュ',
   'settings.cache.clear': 'クリア',
+  'settings.annotation_colors.title': '注釈の色',
+  'settings.annotation_colors.description':
+    '注釈に使う色。「重要」「質問」「単語」などのラベルを付けられます。',
+  'settings.annotation_colors.label': 'ラベル',
+  'settings.annotation_colors.remove': '削除',
+  'settings.annotation_colors.add': '色を追加',
+  'settings.annotation_template.title': '注釈のエクスポートテンプレート',
+  'settings.annotation_template.description':
+    'エクスポートされるファイル内の各注釈のMarkdown。変数：{variables}。{{#notes}}...{{/notes}} で囲んだテキストは変数が空でない場合のみ残ります。',
+  'settings.annotation_template.reset': 'リセット',
   'settings.text_selection_menu': 'テキスト選択メニュー',
   'settings.text_selection_menu.enable': '有効化',
 
@@ -65,6 +298,10 @@ export default {
   'menu.create': '作成',
   'menu.delete': '削除',
   'menu.update': '更新',
+  'menu.highlight': 'ハイライト',
+  'menu.underline': '下線',
+  'menu.strikethrough': '取り消し線',
+  'menu.squiggly': '波線',
 
   'action.expand_all': 'すべて展開',
   'action.collapse_all': 'すべて折りたたむ',
@@ -9,8 +9,30 @@ export default {
   'home.deselect_all': '取消选择所有',
   'home.export': '导出',
   'home.import': '导入',
+  'home.duplicate': '{file} 已在书库中：{name}',
   'home.upload': '上传',
   'home.delete': '删除',
+  'home.all': '全部',
+  'home.status': '状态',
+  'home.status.want_to_read': '想读',
+  'home.status.reading': '在读',
+  'home.status.finished': '读完',
+  'home.status.abandoned': '弃读',
+  'home.status.none': '无状态',
+  'home.rating': '评分',
+  'home.rating.none': '不评分',
+  'home.shelf.add': '加入书架',
+  'home.shelf.remove': '从 {shelf} 移除',
+  'home.tags.add': '添加标签',
+  'home.tags.clear': '清除标签',
+  'home.metadata.edit': '编辑元数据',
+  'home.sort.recently_read': '最近阅读',
+  'home.sort.title': '书名',
+  'home.sort.author': '作者',
+  'home.sort.percentage': '进度',
+  'home.search': '在书库中搜索',
+  'home.search.indexed': '已索引 {n} / {m} 本书',
+  'home.search.no_results': '没有结果',
 
   'toc.title': '目录',
   'toc.library': '图书馆',
@@ -21,7 +43,26 @@ export default {
   'annotation.title': '标注',
   'annotation.definitions': '定义',
   'annotation.annotations': '标注',
+  'annotation.orphaned': '在此版本中找不到',
+  'annotation.orphaned_hint':
+    '书中找不到这些标注的文本，例如图书被替换为其他版本后',
   'annotation.copy_as_markdown': '复制为 Markdown',
+  'annotation.export_markdown': '导出为 Markdown 文件',
+  'annotation.export_web_annotations': '导出为 Web Annotation（JSON-LD）',
+  'annotation.type.highlight': '高亮',
+  'annotation.type.underline': '下划线',
+  'annotation.type.strikethrough': '删除线',
+  'annotation.type.squiggly': '波浪线',
+  'annotation.filter.type': '按类型筛选',
+  'annotation.filter.color': '按颜色筛选',
+  'annotation.filter.all_types': '所有类型',
+  'annotation.filter.all_colors': '所有颜色',
+
+  'bookmark.title': '书签',
+  'bookmark.add': '为此页添加书签',
+  'bookmark.remove': '删除书签',
+  'bookmark.rename': '书签标题',
+  'bookmark.rename_hint': '双击以重命名',
 
   'image.title': '图片',
 
@@ -33,6 +74,12 @@ export default {
   'typography.page_view': '视图',
   'typography.page_view.single_page': '单页',
   'typography.page_view.double_page': '双页',
+  'typography.comic.fit': '适配',
+  'typography.comic.fit.page': '适配页面',
+  'typography.comic.fit.width': '适配宽度',
+  'typography.comic.direction': '阅读方向',
+  'typography.comic.direction.ltr': '从左到右',
+  'typography.comic.direction.rtl': '从右到左',
   'typography.font_family': '字体',
   'typography.font_size': '字号',
   'typography.font_weight': '字重',
@@ -43,6 +90,150 @@ export default {
   'theme.source_color': '源色',
   'theme.background_color': '背景色',
 
+  'opds.title': '书库目录',
+  'opds.catalog.add': '添加目录',
+  'opds.catalog.url': '地址',
+  'opds.catalog.title': '名称',
+  'opds.catalog.username': '用户名',
+  'opds.catalog.password': '密码',
+  'opds.catalog.save': '保存',
+  'opds.catalog.remove': '删除目录',
+  'opds.catalog.remove_confirm': '确定删除该目录？',
+  'opds.back': '返回',
+  'opds.search': '搜索',
+  'opds.loading': '加载中...',
+  'opds.empty': '没有条目',
+  'opds.page.previous': '上一页',
+  'opds.page.next': '下一页',
+  'opds.open': '打开',
+  'opds.downloading': '下载中...',
+  'opds.unsupported': '没有支持的格式',
+  'metadata.title': '编辑元数据',
+  'metadata.creators': '作者（每行一个）',
+  'metadata.series': '系列',
+  'metadata.series_index': '序号',
+  'metadata.language': '语言',
+  'metadata.publisher': '出版社',
+  'metadata.description': '简介',
+  'metadata.cover': '封面',
+  'metadata.cover.upload': '上传图片',
+  'metadata.cover.pick': '从书中选择',
+  'metadata.cover.reset': '使用原封面',
+  'metadata.reset': '全部重置',
+  'metadata.save': '保存',
+  'notebook.title': '笔记本',
+  'notebook.search': '搜索高亮和笔记',
+  'notebook.book': '按图书筛选',
+  'notebook.all_books': '全部图书',
+  'notebook.from': '开始日期',
+  'notebook.to': '结束日期',
+  'notebook.sort': '排序',
+  'notebook.sort.newest': '最新',
+  'notebook.sort.oldest': '最早',
+  'notebook.sort.book': '图书',
+  'notebook.sort.color': '颜色',
+  'notebook.select': '选择',
+  'notebook.select_all': '全选',
+  'notebook.total': '{n} 条标注',
+  'notebook.selected': '已选择 {n} 条',
+  'notebook.recolor': '更改颜色',
+  'notebook.delete': '删除',
+  'notebook.delete.confirm': '删除所选标注？',
+  'notebook.open': '在书中打开',
+  'notebook.no_results': '没有匹配的标注',
+  'notebook.empty': '图书的标注将显示在这里',
+  'import.title': '导入标注',
+  'import.description':
+    '将其他阅读器的高亮和笔记导入书库中匹配的图书。图书需要已下载到此浏览器。',
+  'import.formats':
+    '支持 Kindle“My Clippings.txt”、KOReader 图书“.sdr”文件夹中的“metadata.epub.lua”、从 calibre 阅读器导出的标注，以及 W3C Web Annotation（.jsonld）。',
+  'import.book': '导入到',
+  'import.book.match': '标题匹配的图书',
+  'import.file': '选择文件',
+  'import.progress': '正在匹配… 第 {done} / {total} 本',
+  'import.preview':
+    '{matched} 条高亮和 {bookmarks} 个书签待导入，{duplicated} 条已有标注，{failed} 条未匹配',
+  'import.import': '导入',
+  'import.cancel': '取消',
+  'import.imported': '已导入 {n} 条高亮',
+  'import.matches': '待导入',
+  'import.bookmark': '书签',
+  'import.failures': '未导入',
+  'import.reason.no_book': '书库中没有此书',
+  'import.reason.no_file': '图书文件未下载',
+  'import.reason.not_found': '在书中找不到此文本',
+  'import.reason.no_highlight': '笔记没有对应的高亮',
+
+  'storage.title': '存储',
+  'storage.quota': '本站已使用 {usage}，共 {quota}',
+  'storage.library': '书库：{size}',
+  'storage.persisted': '存储已持久化',
+  'storage.not_persisted': '空间不足时浏览器可能会清除存储',
+  'storage.persist': '持久化存储',
+  'storage.book': '图书',
+  'storage.file': '文件',
+  'storage.cover': '封面',
+  'storage.annotations': '标注',
+  'storage.offloaded': '已卸载',
+  'storage.offload': '卸载',
+  'storage.offload.confirm':
+    '删除这本书的文件？阅读进度和标注会保留，打开图书时会从云端重新下载或要求选择文件。',
+  'storage.missing': '{name} 的文件已卸载，且云端没有该文件。',
+  'storage.choose': '选择文件',
+  'storage.mismatch': '所选文件不是 {name}。',
+  'restore.title': '恢复备份',
+  'restore.summary': '备份中有 {n} 本书',
+  'restore.invalid': '已跳过格式错误的图书：{names}',
+  'restore.apply_to_all': '全部应用',
+  'restore.action.merge': '合并',
+  'restore.action.replace': '替换',
+  'restore.action.skip': '跳过',
+  'restore.action.add': '添加',
+  'restore.local': '书库',
+  'restore.backup': '备份',
+  'restore.result': '结果',
+  'restore.progress': '进度',
+  'restore.updated_at': '上次阅读',
+  'restore.annotations': '标注',
+  'restore.definitions': '释义',
+  'restore.cancel': '取消',
+  'restore.restore': '恢复',
+  'restore.failed': '恢复失败：{error}',
+  'backup.title': '导出备份',
+  'backup.all': '书库中的所有图书',
+  'backup.selected': '已选择 {n} 本书',
+  'backup.files': '包含图书文件',
+  'backup.incremental': '仅包含上次备份（{date}）后添加或阅读的图书',
+  'backup.incremental.unavailable':
+    '仅包含上次备份后添加或阅读的图书（尚无备份）',
+  'backup.cancel': '取消',
+  'backup.export': '导出',
+  'backup.packing': '正在导出...',
+  'backup.failed': '导出失败：{error}',
+  'backup.format': '格式',
+  'backup.format.backup': '备份（可恢复）',
+  'backup.format.markdown': '标注（Markdown）',
+  'backup.format.markdown.description':
+    '每本书导出一个包含标注的 Markdown 文件，可用于 Obsidian 仓库等。',
+  'backup.format.web': 'Web Annotation',
+  'backup.format.web.description':
+    'W3C Web Annotation 格式的高亮、笔记和书签，可导入到其他工具或另一个书库。',
+
+  'sync.title': '同步',
+  'sync.syncing': '正在同步…',
+  'sync.now': '立即同步',
+  'sync.last_sync': '上次同步：{time}',
+  'sync.never': '尚未同步',
+  'sync.pending': '{n} 本书的更改待上传',
+  'sync.last_error': '同步失败：{error}',
+  'sync.retry': '将于 {time} 重试',
+  'sync.invalid': '已跳过 data.json 中格式错误的图书：{names}',
+  'sync.unknown': '未知错误',
+  'sync.log': '日志',
+  'sync.log.empty': '本次会话尚未同步',
+  'sync.log.synced': '已上传 {n} 本书的更改',
+  'sync.log.failed': '失败：{error}',
+  'sync.log.offline': '已离线，更改将在重新连接后上传',
   'settings.title': '设置',
   'settings.language': '语言',
   'settings.color_scheme': '颜色模式',
@@ -52,8 +243,45 @@ export default {
   'settings.synchronization.title': '同步',
   'settings.synchronization.authorize': '授权',
   'settings.synchronization.unauthorize': '取消授权',
+  'settings.synchronization.webdav_library_url': '书库文件夹地址',
+  'settings.synchronization.webdav_library_url.description':
+    '阅读进度、标注和图书文件将与此文件夹同步，而不是 Dropbox。',
+  'settings.sync_provider.title': '书库同步',
+  'settings.sync_provider.dropbox': 'Dropbox',
+  'settings.sync_provider.webdav': 'WebDAV',
+  'settings.sync_provider.local': '本地文件夹',
+  'settings.sync_provider.dropbox.description':
+    '将书库同步到 Dropbox 账户的应用文件夹。',
+  'settings.sync_provider.webdav.description':
+    '将书库同步到下方配置的 WebDAV 书库文件夹。',
+  'settings.sync_provider.local.description':
+    '将书库同步到本设备上的文件夹，例如用于测试。重新加载后需要重新选择文件夹。',
+  'settings.sync_provider.local.choose': '选择文件夹',
+  'settings.sync_provider.local.none': '未选择文件夹',
+  'settings.encryption.title': '加密',
+  'settings.encryption.description':
+    '使用密码加密 data.json 和备份，其他设备需要相同的密码才能读取。',
+  'settings.encryption.enabled': 'data.json 和备份已加密，忘记密码将无法恢复。',
+  'settings.encryption.passphrase': '密码',
+  'settings.encryption.new_passphrase': '新密码',
+  'settings.encryption.confirmation': '确认密码',
+  'settings.encryption.save': '加密',
+  'settings.encryption.change': '修改密码',
+  'settings.encryption.remove': '取消加密',
+  'settings.encryption.saved': '密码已保存。',
+  'settings.encryption.removed': '已取消加密。',
   'settings.cache': '缓存',
   'settings.cache.clear': '清除',
+  'settings.annotation_colors.title': '标注颜色',
+  'settings.annotation_colors.description':
+    '用于标注的颜色，可添加标签，例如“重要”、“疑问”或“生词”。',
+  'settings.annotation_colors.label': '标签',
+  'settings.annotation_colors.remove': '删除',
+  'settings.annotation_colors.add': '添加颜色',
+  'settings.annotation_template.title': '标注导出模板',
+  'settings.annotation_template.description':
+    '导出文件中每条标注的 Markdown。变量：{variables}。用 {{#notes}}...{{/notes}} 包裹的文本仅在变量不为空时保留。',
+  'settings.annotation_template.reset': '重置',
   'settings.text_selection_menu': '文本选择菜单',
   'settings.text_selection_menu.enable': '启用',
 
@@ -65,6 +293,10 @@ export default {
   'menu.create': '创建',
   'menu.delete': '删除',
   'menu.update': '更新',
+  'menu.highlight': '高亮',
+  'menu.underline': '下划线',
+  'menu.strikethrough': '删除线',
+  'menu.squiggly': '波浪线',
 
   'action.expand_all': '展开全部',
   'action.collapse_all': '折叠全部',
@@ -0,0 +1,421 @@
+import { Book, EpubCFI } from '@flow/epubjs'
+import { NavItem } from '@flow/epubjs/types/navigation'
+import Section from '@flow/epubjs/types/section'
+
+import { flattenToc, idle, loadEpub, loadSections, textNodes } from './fulltext'
+import { compareHref } from './models'
+
+// Highlights imported from other apps only have their text, so they are
+// located by searching it in the sections of the book. Text is compared
+// case-insensitively with whitespace and quotes normalized, so that
+// differences of typesetting don't matter.
+//
+// Annotations also keep a quote of their text with its context, to be
+// re-anchored when their CFIs break, e.g. after the book file is replaced
+// by another edition.
+
+export interface TextAnchor {
+  cfi: string
+  spine: {
+    index: number
+    title: string
+  }
+  // text in the book, which may differ from the searched one
+  text: string
+  quote: TextQuote
+}
+
+export interface TextQuote {
+  exact: string
+  prefix: string
+  suffix: string
+}
+
+// position recorded by another reader, which is checked against the text
+// before used, as its document may differ from ours
+export interface TextPosition {
+  // index in the spine
+  spine: number
+  // KOReader xpointers, or CFIs relative to the section document
+  xpointer?: [string, string]
+  cfi?: [string, string]
+}
+
+interface TextIndex {
+  nodes: Text[]
+  // offset of each node in the concatenated text of `nodes`
+  starts: number[]
+  // normalized text
+  text: string
+  // offset in the concatenated text of each character of `text`
+  origins: Uint32Array
+}
+
+interface SectionText extends TextIndex {
+  section: Section
+  title: string
+}
+
+// long quotes are matched by their start and end, as the middle may differ
+const EDGE_LENGTH = 32
+// length of `prefix` and `suffix` of quotes
+const CONTEXT_LENGTH = 32
+// short quotes with different characters, e.g. a corrected typo, are
+// matched by either half if the rest is similar enough
+const MIN_SIMILARITY = 0.75
+
+const CHAR_MAP: Record<string, string> = {
+  '‘': "'",
+  '’': "'",
+  '“': '"',
+  '”': '"',
+  '«': '"',
+  '»': '"',
+  '–': '-',
+  '—': '-',
+}
+
+// whitespace is dropped, as text of adjacent blocks is concatenated without
+// it and typesetting may add or remove it
+export function normalizeText(text: string) {
+  const chars: string[] = []
+  const origins: number[] = []
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!
+    if (/\s/.test(c)) continue
+    chars.push(CHAR_MAP[c] ?? c.toLowerCase()[0]!)
+    origins.push(i)
+  }
+
+  return { text: chars.join(''), origins }
+}
+
+// [start, end) in `haystack`
+export function findText(
+  haystack: string,
+  needle: string,
+): [number, number] | undefined {
+  if (!needle) return
+
+  const i = haystack.indexOf(needle)
+  if (i > -1) return [i, i + needle.length]
+  if (needle.length < EDGE_LENGTH * 2) return
+
+  const head = needle.slice(0, EDGE_LENGTH)
+  const tail = needle.slice(-EDGE_LENGTH)
+  for (
+    let s = haystack.indexOf(head);
+    s > -1;
+    s = haystack.indexOf(head, s + 1)
+  ) {
+    const e = haystack.indexOf(tail, s + EDGE_LENGTH)
+    if (e > -1 && e + EDGE_LENGTH - s <= needle.length * 1.5) {
+      return [s, e + EDGE_LENGTH]
+    }
+  }
+}
+
+function bigrams(text: string) {
+  const grams = new Map<string, number>()
+  for (let i = 0; i < text.length - 1; i++) {
+    const g = text.slice(i, i + 2)
+    grams.set(g, (grams.get(g) ?? 0) + 1)
+  }
+  return grams
+}
+
+// Dice coefficient of bigrams
+function similarity(a: string, b: string) {
+  if (a === b) return 1
+  const ga = bigrams(a)
+  const gb = bigrams(b)
+  let common = 0
+  ga.forEach((n, g) => (common += Math.min(n, gb.get(g) ?? 0)))
+  return (2 * common) / (a.length + b.length - 2 || 1)
+}
+
+function commonLength(a: string, b: string, fromEnd = false) {
+  let n = 0
+  const max = Math.min(a.length, b.length)
+  while (
+    n < max &&
+    (fromEnd ? a[a.length - 1 - n] === b[b.length - 1 - n] : a[n] === b[n])
+  ) {
+    n++
+  }
+  return n
+}
+
+function occurrences(haystack: string, needle: string) {
+  const indexes: number[] = []
+  for (
+    let i = haystack.indexOf(needle);
+    i > -1 && needle;
+    i = haystack.indexOf(needle, i + 1)
+  ) {
+    indexes.push(i)
+  }
+  return indexes
+}
+
+// [start, end) in `haystack` of the text of `quote`, which may differ
+// slightly; its context chooses among repeated matches
+function findQuote(
+  haystack: string,
+  quote: TextQuote,
+): [number, number] | undefined {
+  const exact = normalizeText(quote.exact).text
+  const prefix = normalizeText(quote.prefix).text
+  const suffix = normalizeText(quote.suffix).text
+
+  let candidates: [number, number][] = occurrences(haystack, exact).map((i) => [
+    i,
+    i + exact.length,
+  ])
+  if (!candidates.length) {
+    const found = findText(haystack, exact)
+    if (found) candidates = [found]
+  }
+  if (!candidates.length && exact.length >= 8) {
+    const half = Math.floor(exact.length / 2)
+    const spans: [number, number][] = [
+      ...occurrences(haystack, exact.slice(0, half)).map(
+        (i): [number, number] => [i, i + exact.length],
+      ),
+      ...occurrences(haystack, exact.slice(half)).map((i): [number, number] => [
+        i - half,
+        i + exact.length - half,
+      ]),
+    ]
+    candidates = spans
+      .map(([s, e]): [number, number] => [
+        Math.max(s, 0),
+        Math.min(e, haystack.length),
+      ])
+      .filter(
+        ([s, e]) => similarity(haystack.slice(s, e), exact) >= MIN_SIMILARITY,
+      )
+  }
+
+  let best: [number, number] | undefined
+  let bestScore = -1
+  candidates.forEach(([start, end]) => {
+    const score =
+      commonLength(haystack.slice(0, start), prefix, true) +
+      commonLength(haystack.slice(end), suffix)
+    if (score > bestScore) {
+      best = [start, end]
+      bestScore = score
+    }
+  })
+  return best
+}
+
+function nodeAt(starts: number[], offset: number) {
+  let lo = 0
+  let hi = starts.length - 1
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (starts[mid]! <= offset) lo = mid
+    else hi = mid - 1
+  }
+  return lo
+}
+
+function indexText(nodes: Text[]): TextIndex {
+  const starts: number[] = []
+  let length = 0
+  nodes.forEach((n) => {
+    starts.push(length)
+    length += n.length
+  })
+  const { text, origins } = normalizeText(nodes.map((n) => n.data).join(''))
+  return { nodes, starts, text, origins: Uint32Array.from(origins) }
+}
+
+// range of [start, end) in the normalized text
+function rangeOf(doc: Document, index: TextIndex, [s, e]: [number, number]) {
+  const start = index.origins[s]!
+  const end = index.origins[e - 1]! + 1
+  const startNode = nodeAt(index.starts, start)
+  const endNode = nodeAt(index.starts, end - 1)
+
+  const range = doc.createRange()
+  range.setStart(index.nodes[startNode]!, start - index.starts[startNode]!)
+  range.setEnd(index.nodes[endNode]!, end - index.starts[endNode]!)
+  return range
+}
+
+export function quoteFromRange(range: Range): TextQuote {
+  const doc = range.startContainer.ownerDocument!
+  const body = doc.body ?? doc.documentElement
+
+  const before = doc.createRange()
+  before.setStart(body, 0)
+  before.setEnd(range.startContainer, range.startOffset)
+  const after = doc.createRange()
+  after.setStart(range.endContainer, range.endOffset)
+  after.setEnd(body, body.childNodes.length)
+
+  return {
+    exact: range.toString(),
+    prefix: before.toString().slice(-CONTEXT_LENGTH),
+    suffix: after.toString().slice(0, CONTEXT_LENGTH),
+  }
+}
+
+// re-anchors `quote` in a document, e.g. a rendered section
+export function anchorQuote(doc: Document, quote: TextQuote) {
+  const index = indexText(textNodes(doc))
+  const found = findQuote(index.text, quote)
+  return found && rangeOf(doc, index, found)
+}
+
+// whether `range` still contains the text of `quote`
+export function matchQuote(range: Range | null | undefined, quote: TextQuote) {
+  return (
+    !!range &&
+    normalizeText(range.toString()).text === normalizeText(quote.exact).text
+  )
+}
+
+// e.g. `/body/DocFragment[12]/body/div/p[3]/text().15`, where indexes are
+// 1-based and only count siblings of the same name
+function xpointerToPoint(
+  doc: Document,
+  xpointer: string,
+): [Node, number] | undefined {
+  const match = xpointer.match(
+    /^\/body\/DocFragment\[\d+\](\/.*?)(?:\.(\d+))?$/,
+  )
+  if (!match) return
+
+  let node: Node = doc.documentElement
+  for (const step of match[1]!.split('/').filter(Boolean)) {
+    const m = step.match(/^([\w:-]+|text\(\))(?:\[(\d+)\])?$/)
+    if (!m) return
+    const [, name, index = '1'] = m
+    const children = Array.from(node.childNodes).filter((n) =>
+      name === 'text()'
+        ? n.nodeType === Node.TEXT_NODE
+        : n.nodeType === Node.ELEMENT_NODE &&
+          (n as Element).localName.toLowerCase() === name!.toLowerCase(),
+    )
+    const child = children[Number(index) - 1]
+    if (!child) return
+    node = child
+  }
+
+  const offset = Number(match[2] ?? 0)
+  return node.nodeType === Node.TEXT_NODE
+    ? [node, Math.min(offset, (node as Text).length)]
+    : [node, 0]
+}
+
+function cfiToPoint(section: Section, cfi: string): [Node, number] | undefined {
+  try {
+    const range = new EpubCFI(`epubcfi(${section.cfiBase}!${cfi})`).toRange(
+      section.document,
+    )
+    return range ? [range.startContainer, range.startOffset] : undefined
+  } catch {
+    return
+  }
+}
+
+function positionToRange(section: Section, position: TextPosition) {
+  const points = position.xpointer
+    ? position.xpointer.map((x) => xpointerToPoint(section.document, x))
+    : position.cfi?.map((c) => cfiToPoint(section, c))
+  const [start, end] = points ?? []
+  if (!start || !end) return
+
+  try {
+    const range = section.document.createRange()
+    range.setStart(...start)
+    range.setEnd(...end)
+    return range
+  } catch {
+    return
+  }
+}
+
+// Sections are loaded once and kept until `destroy`, as a book usually has
+// many highlights to locate.
+export class TextLocator {
+  private sections?: SectionText[]
+
+  private constructor(private readonly epub: Book) {}
+
+  // `undefined` if the file of the book is not in this browser
+  static async open(bookId: string) {
+    const epub = await loadEpub(bookId)
+    return epub && new TextLocator(epub)
+  }
+
+  private async load() {
+    if (this.sections) return this.sections
+
+    const toc = flattenToc((await this.epub.loaded.navigation).toc)
+    const sections: SectionText[] = []
+    for (const section of await loadSections(this.epub)) {
+      await section.load(this.epub.load.bind(this.epub))
+      sections.push(this.indexSection(section, toc))
+      await idle()
+    }
+    return (this.sections = sections)
+  }
+
+  private indexSection(section: Section, toc: NavItem[]): SectionText {
+    return {
+      ...indexText(textNodes(section.document)),
+      section,
+      title:
+        toc.find((i) => compareHref(section.href, i.href))?.label.trim() ?? '',
+    }
+  }
+
+  private anchor(s: SectionText, range: Range): TextAnchor {
+    return {
+      cfi: s.section.cfiFromRange(range),
+      spine: { index: s.section.index, title: s.title },
+      text: range.toString(),
+      quote: quoteFromRange(range),
+    }
+  }
+
+  private search(s: SectionText, needle: string) {
+    const found = findText(s.text, needle)
+    return found && this.anchor(s, rangeOf(s.section.document, s, found))
+  }
+
+  async locate(
+    quote: string,
+    position?: TextPosition,
+  ): Promise<TextAnchor | undefined> {
+    const needle = normalizeText(quote).text
+    const sections = await this.load()
+    const hinted = sections.find((s) => s.section.index === position?.spine)
+
+    if (hinted) {
+      const range = positionToRange(hinted.section, position!)
+      if (range && normalizeText(range.toString()).text === needle) {
+        return this.anchor(hinted, range)
+      }
+      const anchor = this.search(hinted, needle)
+      if (anchor) return anchor
+    }
+
+    for (const s of sections) {
+      if (s === hinted) continue
+      const anchor = this.search(s, needle)
+      if (anchor) return anchor
+    }
+  }
+
+  destroy() {
+    this.sections?.forEach((s) => s.section.unload())
+    this.epub.destroy()
+  }
+}
@@ -1,25 +1,75 @@
+import type { TextQuote } from './anchor'
+
 export type AnnotationType = keyof typeof typeMap
 
+// previewed in `TextSelectionMenu` by applying the color to `style`
 export const typeMap = {
   highlight: {
     style: 'backgroundColor',
     class: 'rounded',
   },
-  // underline: {
-  //   style: 'border-bottom-color',
-  //   class: 'border-b-2',
-  // },
+  underline: {
+    style: 'textDecorationColor',
+    class: 'underline decoration-2',
+  },
+  strikethrough: {
+    style: 'textDecorationColor',
+    class: 'line-through decoration-2',
+  },
+  squiggly: {
+    style: 'textDecorationColor',
+    class: 'underline decoration-wavy',
+  },
 }
 
-export type AnnotationColor = keyof typeof colorMap
+// id of an `AnnotationColorOption`
+export type AnnotationColor = string
+
+export interface AnnotationColorOption {
+  id: string
+  // hex, e.g. `#d97706`
+  color: string
+  // e.g. "important", "question" or "vocab"
+  label?: string
+}
 
 // "dark color + low opacity" is clearer than "light color + high opacity"
 // from tailwind [color]-600
 export const colorMap = {
-  yellow: 'rgba(217, 119, 6, 0.2)',
-  red: 'rgba(220, 38, 38, 0.2)',
-  green: 'rgba(22, 163, 74, 0.2)',
-  blue: 'rgba(37, 99, 235, 0.2)',
+  yellow: '#d97706',
+  red: '#dc2626',
+  green: '#16a34a',
+  blue: '#2563eb',
+}
+
+export const defaultAnnotationColors: AnnotationColorOption[] = [
+  { id: 'yellow', color: colorMap.yellow },
+  { id: 'red', color: colorMap.red, label: 'important' },
+  { id: 'blue', color: colorMap.blue, label: 'question' },
+  { id: 'green', color: colorMap.green, label: 'vocab' },
+]
+
+// colors removed by the user fall back to the first one
+export function findAnnotationColor(
+  colors: AnnotationColorOption[],
+  id: AnnotationColor,
+) {
+  return (
+    colors.find((c) => c.id === id) ?? colors[0] ?? defaultAnnotationColors[0]!
+  )
+}
+
+export function withAlpha(hex: string, alpha: number) {
+  const [r, g, b] = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16))
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`
+}
+
+// attributes of the SVG mark drawn by epub.js
+export function annotationStyles(type: AnnotationType, color: string) {
+  // highlights cover the text
+  return type === 'highlight'
+    ? { fill: withAlpha(color, 0.2), 'fill-opacity': '0.5' }
+    : { stroke: color, 'stroke-opacity': '0.8', 'stroke-width': '1.5' }
 }
 
 export interface Annotation {
@@ -36,4 +86,6 @@ export interface Annotation {
   color: AnnotationColor
   notes?: string
   text: string
+  // re-anchors the annotation if `cfi` breaks
+  quote?: TextQuote
 }
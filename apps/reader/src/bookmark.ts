@@ -0,0 +1,56 @@
+import type { Location, Rendition } from '@flow/epubjs'
+
+const EXCERPT_LENGTH = 100
+
+// A page marked without selecting text, unlike an `Annotation`. The page is
+// located by the `cfi` of its start, and previewed by its first words.
+export interface Bookmark {
+  id: string
+  cfi: string
+  spine: {
+    index: number
+    title: string
+  }
+  excerpt: string
+  // named by the user, otherwise `excerpt` is shown
+  title?: string
+  createdAt: number
+  updatedAt: number
+}
+
+// the bookmark is within the displayed pages
+export function isBookmarkDisplayed(
+  rendition: Rendition,
+  bookmark: Bookmark,
+  location: Location,
+) {
+  const { epubcfi } = rendition
+  return (
+    epubcfi.compare(bookmark.cfi, location.start.cfi) >= 0 &&
+    epubcfi.compare(bookmark.cfi, location.end.cfi) <= 0
+  )
+}
+
+// text of the displayed pages, empty for pages of images
+export function excerptLocation(rendition: Rendition, location: Location) {
+  try {
+    const range = rendition.getRange(location.start.cfi).cloneRange()
+    const end = rendition.getRange(location.end.cfi)
+    // pages of another section in spreads
+    if (
+      end?.endContainer.ownerDocument === range.startContainer.ownerDocument
+    ) {
+      range.setEnd(end.endContainer, end.endOffset)
+    } else {
+      const body = range.startContainer.ownerDocument?.body
+      if (body) range.setEndAfter(body.lastChild ?? body)
+    }
+    const text = range.toString().replace(/\s+/g, ' ').trim()
+    return text.length > EXCERPT_LENGTH
+      ? text.slice(0, EXCERPT_LENGTH) + '…'
+      : text
+  } catch (error) {
+    // the location is not rendered
+    return ''
+  }
+}
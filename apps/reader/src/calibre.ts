@@ -0,0 +1,95 @@
+import { AnnotationType, defaultAnnotationColors } from './annotation'
+import { ImportedHighlight } from './importer'
+
+// Parser of annotations exported by the calibre viewer, a JSON file like
+//
+//   {
+//     "type": "calibre_highlights",
+//     "version": 1,
+//     "highlights": [
+//       {
+//         "type": "highlight",
+//         "start_cfi": "/2/4/2/10/1:0",
+//         "end_cfi": "/2/4/2/10/1:44",
+//         "spine_index": 4,
+//         "highlighted_text": "Text of the highlight",
+//         "notes": "Note",
+//         "style": { "kind": "color", "type": "builtin", "which": "yellow" },
+//         "timestamp": "2021-03-03T10:00:00.000Z"
+//       }
+//     ]
+//   }
+//
+// The file doesn't contain the title of its book, which is taken from the
+// name of the file.
+
+interface CalibreHighlight {
+  type?: string
+  removed?: boolean
+  start_cfi?: string
+  end_cfi?: string
+  spine_index?: number
+  highlighted_text?: string
+  notes?: string
+  style?: {
+    kind?: string
+    which?: string
+  }
+  timestamp?: string
+}
+
+const DECORATIONS: Record<string, AnnotationType> = {
+  wavy: 'squiggly',
+  strikeout: 'strikethrough',
+  underline: 'underline',
+}
+
+function style(highlight: CalibreHighlight) {
+  const { kind, which = '' } = highlight.style ?? {}
+  if (kind === 'decoration') return { type: DECORATIONS[which] }
+  return { color: defaultAnnotationColors.find((c) => c.id === which)?.id }
+}
+
+// calibre starts paths with the root element, which is implicit in CFIs
+// relative to documents of epubjs
+function relativeCfi(cfi: string) {
+  return cfi.replace(/^\/2(?=\/)/, '')
+}
+
+function position(h: CalibreHighlight): ImportedHighlight['position'] {
+  if (h.spine_index === undefined) return
+  return {
+    spine: h.spine_index,
+    cfi:
+      h.start_cfi && h.end_cfi
+        ? [relativeCfi(h.start_cfi), relativeCfi(h.end_cfi)]
+        : undefined,
+  }
+}
+
+export function parseCalibre(
+  content: string,
+  title: string,
+): ImportedHighlight[] {
+  const json = JSON.parse(content)
+  const highlights: CalibreHighlight[] | undefined = Array.isArray(json)
+    ? json
+    : json?.highlights
+  if (!Array.isArray(highlights)) {
+    throw new Error('Invalid calibre annotations')
+  }
+
+  return highlights
+    .filter((h) => h.type === 'highlight' && !h.removed && h.highlighted_text)
+    .map((h) => {
+      const time = Date.parse(h.timestamp ?? '')
+      return {
+        title,
+        text: h.highlighted_text!,
+        notes: h.notes,
+        createdAt: isNaN(time) ? undefined : time,
+        ...style(h),
+        position: position(h),
+      }
+    })
+}
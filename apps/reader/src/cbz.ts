@@ -0,0 +1,150 @@
+import JSZip from 'jszip'
+
+import { BookRecord } from './db'
+import { buildEpub, EpubChapter, EpubResource } from './epub'
+
+// Convert comic book archives (`.cbz`) to fixed layout EPUB,
+// one page per image
+
+const mapExtToImageMime: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+}
+
+// used when the size can not be read from the image header
+const DEFAULT_SIZE = { width: 1000, height: 1500 }
+
+const collator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: 'base',
+})
+
+const css = `html, body { margin: 0; padding: 0; width: 100%; height: 100%; }
+img { display: block; width: 100%; height: 100%; object-fit: contain; }`
+
+export function isComic(book: BookRecord) {
+  return /\.cbz$/i.test(book.name)
+}
+
+// read dimensions from the header of PNG, GIF, JPEG and WebP
+export function imageSize(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const ascii = (start: number, end: number) =>
+    String.fromCharCode(...bytes.subarray(start, end))
+
+  try {
+    if (ascii(1, 4) === 'PNG') {
+      return { width: view.getUint32(16), height: view.getUint32(20) }
+    }
+    if (ascii(0, 3) === 'GIF') {
+      return {
+        width: view.getUint16(6, true),
+        height: view.getUint16(8, true),
+      }
+    }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+      const chunk = ascii(12, 16)
+      if (chunk === 'VP8 ')
+        return {
+          width: view.getUint16(26, true) & 0x3fff,
+          height: view.getUint16(28, true) & 0x3fff,
+        }
+      if (chunk === 'VP8L') {
+        const bits = view.getUint32(21, true)
+        return {
+          width: (bits & 0x3fff) + 1,
+          height: ((bits >> 14) & 0x3fff) + 1,
+        }
+      }
+      if (chunk === 'VP8X')
+        return {
+          width: (view.getUint32(24, true) & 0xffffff) + 1,
+          height: (view.getUint32(27, true) & 0xffffff) + 1,
+        }
+    }
+    if (view.getUint16(0) === 0xffd8) {
+      let offset = 2
+      while (offset < bytes.length) {
+        const marker = view.getUint16(offset)
+        const length = view.getUint16(offset + 2)
+        // SOF0 - SOF15, except DHT, JPG and DAC
+        if (
+          marker >= 0xffc0 &&
+          marker <= 0xffcf &&
+          ![0xffc4, 0xffc8, 0xffcc].includes(marker)
+        ) {
+          return {
+            height: view.getUint16(offset + 5),
+            width: view.getUint16(offset + 7),
+          }
+        }
+        offset += 2 + length
+      }
+    }
+  } catch {
+    // truncated or unknown header
+  }
+  return DEFAULT_SIZE
+}
+
+function extname(path: string) {
+  return /\.([^./]+)$/.exec(path)?.[1]?.toLowerCase() ?? ''
+}
+
+function dirname(path: string) {
+  return path.split('/').slice(0, -1).join('/')
+}
+
+export async function cbzToEpub(file: File) {
+  const zip = await JSZip.loadAsync(file)
+  const title = file.name.replace(/\.cbz$/i, '')
+
+  const entries = Object.values(zip.files)
+    .filter(
+      (f) =>
+        !f.dir &&
+        mapExtToImageMime[extname(f.name)] &&
+        // macOS resource forks and hidden files
+        !f.name.split('/').some((p) => p.startsWith('.') || p === '__MACOSX'),
+    )
+    .sort((a, b) => collator.compare(a.name, b.name))
+
+  const resources: EpubResource[] = []
+  const chapters: EpubChapter[] = []
+  const toc: { title: string; index: number }[] = []
+
+  for (const [i, entry] of entries.entries()) {
+    const ext = extname(entry.name)
+    const data = await entry.async('uint8array')
+    const { width, height } = imageSize(data)
+    const href = `images/${i + 1}.${ext}`
+
+    resources.push({ href, mediaType: mapExtToImageMime[ext]!, data })
+    chapters.push({
+      title: `${i + 1}`,
+      html: `<img src="${href}" alt="${i + 1}"/>`,
+      head: `<meta name="viewport" content="width=${width}, height=${height}"/>`,
+    })
+
+    // archives often group pages of a chapter into folders
+    const folder = dirname(entry.name)
+    if (i === 0 || folder !== dirname(entries[i - 1]!.name)) {
+      toc.push({ title: folder.split('/').pop() || title, index: i })
+    }
+  }
+
+  return buildEpub({
+    title,
+    chapters: chapters.length ? chapters : [{ title, html: '' }],
+    toc: toc.length > 1 ? toc : undefined,
+    resources,
+    cover: resources[0]?.href,
+    css,
+    fixedLayout: true,
+  })
+}
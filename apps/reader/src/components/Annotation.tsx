@@ -1,8 +1,8 @@
 import { useEffect } from 'react'
 import { useSnapshot } from 'valtio'
 
-import { colorMap, Annotation as IAnnotation } from '../annotation'
-import { useSetAction } from '../hooks'
+import { annotationStyles, Annotation as IAnnotation } from '../annotation'
+import { useAnnotationColors, useSetAction } from '../hooks'
 import { BookTab, compareHref } from '../models'
 
 // avoid click penetration
@@ -109,6 +109,8 @@ interface AnnotationProps {
 }
 const Annotation: React.FC<AnnotationProps> = ({ tab, annotation }) => {
   const { rendition } = useSnapshot(tab)
+  const { findColor } = useAnnotationColors()
+  const color = findColor(annotation.color).color
 
   useEffect(() => {
     const h = rendition?.annotations[annotation.type](
@@ -116,10 +118,7 @@ const Annotation: React.FC<AnnotationProps> = ({ tab, annotation }) => {
       undefined,
       undefined,
       undefined,
-      {
-        fill: colorMap[annotation.color],
-        'fill-opacity': '0.5',
-      },
+      annotationStyles(annotation.type, color),
     )
 
     const g = h?.mark?.element as SVGGElement
@@ -133,13 +132,7 @@ const Annotation: React.FC<AnnotationProps> = ({ tab, annotation }) => {
     return () => {
       rendition?.annotations.remove(annotation.cfi, annotation.type)
     }
-  }, [
-    annotation.cfi,
-    annotation.color,
-    annotation.type,
-    rendition?.annotations,
-    tab,
-  ])
+  }, [annotation.cfi, annotation.type, color, rendition?.annotations, tab])
 
   return null
 }
@@ -148,7 +141,7 @@ interface AnnotationsProps {
   tab: BookTab
 }
 export const Annotations: React.FC<AnnotationsProps> = ({ tab }) => {
-  const { book, section } = useSnapshot(tab)
+  const { book, section, orphanedAnnotations } = useSnapshot(tab)
 
   return (
     <>
@@ -156,7 +149,11 @@ export const Annotations: React.FC<AnnotationsProps> = ({ tab }) => {
       {/* with `key`, react will mount/unmount it automatically */}
       {book.annotations
         // seems to fix annotation flash when executing `next()` and `display()`
-        .filter((a) => a.spine.index === section?.index)
+        .filter(
+          (a) =>
+            a.spine.index === section?.index &&
+            !orphanedAnnotations.includes(a.id),
+        )
         .map((annotation) => (
           <Annotation key={annotation.id} tab={tab} annotation={annotation} />
         ))}
@@ -0,0 +1,116 @@
+import { useState } from 'react'
+import useLocalStorageState from 'use-local-storage-state'
+
+import { BookRecord, db } from '../db'
+import { useTranslation } from '../hooks'
+import { downloadMarkdownZip } from '../markdown'
+import { pack } from '../sync'
+import { downloadWebAnnotations } from '../webannotation'
+
+import { Button } from './Button'
+import { Dialog } from './Dialog'
+import { Checkbox, Select } from './Form'
+
+interface BackupDialogProps {
+  // selected books, all books if undefined
+  books?: BookRecord[]
+  onClose: () => void
+}
+export const BackupDialog: React.FC<BackupDialogProps> = ({
+  books,
+  onClose,
+}) => {
+  const [lastBackupAt, setLastBackupAt] =
+    useLocalStorageState<number>('last-backup-at')
+  const [files, setFiles] = useState(true)
+  const [incremental, setIncremental] = useState(false)
+  const [packing, setPacking] = useState(false)
+  const [error, setError] = useState<string>()
+  // Markdown files and Web Annotations can't be restored
+  const [format, setFormat] = useState<'backup' | 'markdown' | 'web'>('backup')
+  const t = useTranslation('backup')
+
+  return (
+    <Dialog headline={t('title')} onClose={onClose}>
+      <div className="typescale-body-medium text-on-surface-variant space-y-3">
+        <div>
+          {books ? t('selected').replace('{n}', '' + books.length) : t('all')}
+        </div>
+        <Select
+          name={t('format')}
+          value={format}
+          onChange={(e) => setFormat(e.target.value as typeof format)}
+        >
+          <option value="backup">{t('format.backup')}</option>
+          <option value="markdown">{t('format.markdown')}</option>
+          <option value="web">{t('format.web')}</option>
+        </Select>
+        {format === 'backup' ? (
+          <>
+            <Checkbox
+              name={t('files')}
+              checked={files}
+              onChange={(e) => setFiles(e.target.checked)}
+            />
+            <Checkbox
+              name={
+                lastBackupAt
+                  ? t('incremental').replace(
+                      '{date}',
+                      new Date(lastBackupAt).toLocaleString(),
+                    )
+                  : t('incremental.unavailable')
+              }
+              checked={incremental}
+              disabled={!lastBackupAt}
+              onChange={(e) => setIncremental(e.target.checked)}
+            />
+          </>
+        ) : (
+          <div>{t(`format.${format}.description`)}</div>
+        )}
+        {error && (
+          <div className="text-error">
+            {t('failed').replace('{error}', error)}
+          </div>
+        )}
+      </div>
+      <div className="mt-4 flex justify-end gap-2">
+        <Button variant="secondary" onClick={onClose}>
+          {t('cancel')}
+        </Button>
+        <Button
+          disabled={packing}
+          onClick={async () => {
+            const now = Date.now()
+            setPacking(true)
+            setError(undefined)
+            try {
+              if (format !== 'backup') {
+                const selected = books ?? (await db?.books.toArray()) ?? []
+                if (format === 'markdown') await downloadMarkdownZip(selected)
+                else downloadWebAnnotations(selected)
+                return onClose()
+              }
+              await pack({
+                bookIds: books?.map((b) => b.id),
+                files,
+                since: incremental ? lastBackupAt : undefined,
+              })
+              // changes to other books are not in a selective backup
+              if (!books) setLastBackupAt(now)
+              onClose()
+            } catch (error) {
+              console.error(error)
+              setError(error instanceof Error ? error.message : String(error))
+            } finally {
+              setPacking(false)
+            }
+          }}
+        >
+          {t(packing ? 'packing' : 'export')}
+        </Button>
+      </div>
+    </Dialog>
+  )
+}
@@ -0,0 +1,24 @@
+import clsx from 'clsx'
+import { ComponentProps } from 'react'
+
+interface ChipProps extends ComponentProps<'button'> {
+  selected?: boolean
+}
+export const Chip: React.FC<ChipProps> = ({
+  selected = false,
+  className,
+  ...props
+}) => {
+  return (
+    <button
+      className={clsx(
+        'typescale-label-medium shrink-0 rounded-full border px-3 py-1',
+        selected
+          ? 'bg-secondary-container text-on-secondary-container border-transparent'
+          : 'border-surface-variant text-on-surface-variant hover:bg-outline/10',
+        className,
+      )}
+      {...props}
+    />
+  )
+}
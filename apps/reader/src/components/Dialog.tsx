@@ -0,0 +1,43 @@
+import clsx from 'clsx'
+import { ComponentProps } from 'react'
+
+interface DialogProps extends ComponentProps<'div'> {
+  headline: string
+  onClose: () => void
+}
+export const Dialog: React.FC<DialogProps> = ({
+  headline,
+  onClose,
+  className,
+  children,
+  ...props
+}) => {
+  return (
+    <div
+      className="fixed inset-0 z-40 flex items-center justify-center bg-black/40"
+      onClick={onClose}
+    >
+      <div
+        className={clsx(
+          'bg-surface text-on-surface flex max-h-[90vh] w-[min(640px,100%-32px)] flex-col overflow-hidden rounded-2xl shadow-2xl',
+          className,
+        )}
+        onClick={(e) => e.stopPropagation()}
+        {...props}
+      >
+        <div className="border-surface-variant flex items-center justify-between border-b px-4 py-2">
+          <h2 className="typescale-title-medium text-on-surface-variant truncate">
+            {headline}
+          </h2>
+          <button
+            className="text-on-surface-variant hover:bg-surface-variant/60 rounded px-2 py-1 text-sm"
+            onClick={onClose}
+          >
+            ×
+          </button>
+        </div>
+        <div className="scroll flex-1 overflow-y-auto p-4">{children}</div>
+      </div>
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
 import { Overlay } from '@literal-ui/core'
 import clsx from 'clsx'
+import { useLiveQuery } from 'dexie-react-hooks'
 import { ComponentProps, useEffect, useState } from 'react'
 import { useMemo } from 'react'
 import { IconType } from 'react-icons'
@@ -15,14 +16,24 @@ import {
 } from 'react-icons/md'
 import {
   RiBook2Line,
+  RiChatQuoteLine,
+  RiCloudLine,
+  RiCloudOffLine,
+  RiErrorWarningLine,
   RiFontSize,
+  RiGlobalLine,
+  RiHardDrive2Line,
   RiHome6Line,
+  RiRefreshLine,
   RiSettings5Line,
+  RiStickyNoteLine,
   RiUploadCloud2Line,
   RiDownloadCloud2Line,
 } from 'react-icons/ri'
 import { useRecoilState } from 'recoil'
+import { useSnapshot } from 'valtio'
 
+import { db } from '../db'
 import {
   Env,
   type Action,
@@ -30,16 +41,27 @@ import {
   useBackground,
   useColorScheme,
   useMobile,
+  useOutbox,
+  useProviderReady,
   useSetAction,
   useTranslation,
 } from '../hooks'
 import { reader, useReaderSnapshot } from '../models'
+import { syncStatus } from '../outbox'
 import { navbarState, useAiState, useSettings } from '../state'
 import { activeClass } from '../styles'
 
+import { RestoreDialog } from './RestoreDialog'
 import { RightSidebar } from './RightSidebar'
 import { SplitView, useSplitViewItem } from './base'
-import { Settings } from './pages'
+import {
+  ImportAnnotations,
+  Notebook,
+  Opds,
+  Settings,
+  Storage,
+  Sync,
+} from './pages'
 import { AnnotationView } from './viewlets/AnnotationView'
 import { ImageView } from './viewlets/ImageView'
 import { QuizView } from './viewlets/QuizView'
@@ -52,6 +74,7 @@ import { VocabularyView } from './viewlets/VocabularyView'
 
 export const Layout: React.FC = ({ children }) => {
   useColorScheme()
+  useOutbox()
 
   const [ready, setReady] = useState(false)
   const [showVocabulary, setShowVocabulary] = useState(false)
@@ -87,6 +110,7 @@ export const Layout: React.FC = ({ children }) => {
         {ready && <Reader>{children}</Reader>}
         {ready && <RightSidebar />}
       </SplitView>
+      <RestoreDialog />
       {showSettings && (
         mobile ? (
           // Mobile: fullscreen settings page with scrollable content
@@ -442,6 +466,7 @@ function PageActionBar({
   const mobile = useMobile()
   const [action, setAction] = useState('Home')
   const t = useTranslation()
+  const syncReady = useProviderReady()
 
   interface IPageAction extends IAction {
     Component?: React.FC
@@ -456,6 +481,34 @@ function PageActionBar({
         Icon: RiHome6Line,
         env: Env.Mobile,
       },
+      {
+        name: 'opds',
+        title: 'opds',
+        Icon: RiGlobalLine,
+        Component: Opds,
+        env: Env.Desktop | Env.Mobile,
+      },
+      {
+        name: 'notebook',
+        title: 'notebook',
+        Icon: RiStickyNoteLine,
+        Component: Notebook,
+        env: Env.Desktop | Env.Mobile,
+      },
+      {
+        name: 'import',
+        title: 'import',
+        Icon: RiChatQuoteLine,
+        Component: ImportAnnotations,
+        env: Env.Desktop | Env.Mobile,
+      },
+      {
+        name: 'storage',
+        title: 'storage',
+        Icon: RiHardDrive2Line,
+        Component: Storage,
+        env: Env.Desktop | Env.Mobile,
+      },
       {
         name: 'settings',
         title: 'settings',
@@ -469,6 +522,7 @@ function PageActionBar({
 
   return (
     <ActionBar>
+      {syncReady && <SyncAction />}
       {pageActions
         .filter((a) => a.env & env)
         .map(({ name, title, Icon, Component, disabled }, i) => (
@@ -506,6 +560,36 @@ function PageActionBar({
   )
 }
 
+function SyncAction() {
+  const { syncing, lastError, retryAt } = useSnapshot(syncStatus)
+  const pending = useLiveQuery(() => db?.outbox.count() ?? 0)
+  const t = useTranslation('sync')
+
+  const Icon = syncing
+    ? RiRefreshLine
+    : retryAt
+    ? RiErrorWarningLine
+    : pending
+    ? RiCloudOffLine
+    : RiCloudLine
+  const title = syncing
+    ? t('syncing')
+    : retryAt
+    ? t('last_error').replace('{error}', lastError || t('unknown'))
+    : pending
+    ? t('pending').replace('{n}', '' + pending)
+    : t('title')
+
+  return (
+    <Action
+      title={title}
+      Icon={Icon}
+      badge={pending || undefined}
+      onClick={() => reader.addTab(Sync)}
+    />
+  )
+}
+
 interface NavigationBarProps {
   onOpenSettings?: () => void
   onOpenVocabulary?: () => void
@@ -554,11 +638,13 @@ function ActionBar({ className, ...props }: ActionBarProps) {
 interface ActionProps extends ComponentProps<'button'> {
   Icon: IconType
   active?: boolean
+  badge?: number
 }
 const Action: React.FC<ActionProps> = ({
   className,
   Icon,
   active,
+  badge,
   ...props
 }) => {
   const mobile = useMobile()
@@ -579,6 +665,11 @@ const Action: React.FC<ActionProps> = ({
           />
         ))}
       <Icon size={28} />
+      {badge !== undefined && (
+        <span className="bg-tertiary text-on-tertiary absolute right-1 top-1 min-w-[16px] rounded-full px-1 text-[10px] leading-4">
+          {badge}
+        </span>
+      )}
     </button>
   )
 }
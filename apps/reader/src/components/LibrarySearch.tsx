@@ -0,0 +1,121 @@
+import { useLiveQuery } from 'dexie-react-hooks'
+import { useState } from 'react'
+import Highlighter from 'react-highlight-words'
+import { useDebounce } from 'react-use'
+
+import { BookRecord } from '../db'
+import {
+  BookHit,
+  countIndexedBooks,
+  matchToCfi,
+  searchLibrary,
+  SectionHit,
+  TextMatch,
+} from '../fulltext'
+import { useTranslation } from '../hooks'
+import { bookMetadata } from '../metadata'
+import { reader } from '../models'
+
+interface LibrarySearchProps {
+  books: BookRecord[]
+  keyword: string
+}
+export const LibrarySearch: React.FC<LibrarySearchProps> = ({
+  books,
+  keyword,
+}) => {
+  const [hits, setHits] = useState<BookHit[]>()
+  const indexed = useLiveQuery(countIndexedBooks)
+  const t = useTranslation('home.search')
+
+  useDebounce(
+    () => {
+      setHits(undefined)
+      searchLibrary(keyword).then(setHits)
+    },
+    300,
+    [keyword, indexed],
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="typescale-body-small text-outline">
+        {t('indexed')
+          .replace('{n}', '' + (indexed ?? 0))
+          .replace('{m}', '' + books.length)}
+      </div>
+      {hits && !hits.length && (
+        <div className="typescale-body-medium text-outline">
+          {t('no_results')}
+        </div>
+      )}
+      {hits?.map((hit) => {
+        const book = books.find((b) => b.id === hit.bookId)
+        if (!book) return null
+        return (
+          <div key={hit.bookId}>
+            <h2 className="typescale-title-small text-on-surface-variant">
+              {bookMetadata(book).title}
+            </h2>
+            {hit.sections.map((section) => (
+              <SectionHitList
+                key={section.index}
+                book={book}
+                section={section}
+                keyword={keyword}
+              />
+            ))}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+interface SectionHitListProps {
+  book: BookRecord
+  section: SectionHit
+  keyword: string
+}
+const SectionHitList: React.FC<SectionHitListProps> = ({
+  book,
+  section,
+  keyword,
+}) => {
+  const open = async (match: TextMatch) => {
+    const cfi = await matchToCfi(
+      book.id,
+      section.index,
+      match.offset,
+      keyword.length,
+    )
+    reader.openBook(book, cfi)
+  }
+
+  return (
+    <div className="mt-2">
+      {section.title && (
+        <div className="typescale-label-medium text-outline">
+          {section.title}
+        </div>
+      )}
+      <ul>
+        {section.matches.map((match) => (
+          <li key={match.offset}>
+            <button
+              className="typescale-body-small text-on-surface-variant hover:bg-outline/5 w-full py-1 text-left"
+              onClick={() => open(match)}
+            >
+              <Highlighter
+                highlightClassName="match-highlight"
+                searchWords={[keyword]}
+                textToHighlight={match.excerpt}
+                autoEscape
+              />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
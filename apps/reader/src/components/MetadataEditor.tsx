@@ -0,0 +1,190 @@
+import { useLiveQuery } from 'dexie-react-hooks'
+import { ChangeEvent, useEffect, useRef, useState } from 'react'
+
+import { BookRecord, db } from '../db'
+import { useTranslation } from '../hooks'
+import {
+  bookImages,
+  cleanOverrides,
+  MetadataOverrides,
+  originalMetadata,
+  resizeCover,
+} from '../metadata'
+
+import { Button } from './Button'
+import { Dialog } from './Dialog'
+import { TextField } from './Form'
+
+interface MetadataEditorProps {
+  book: BookRecord
+  onSave: (overrides?: MetadataOverrides) => void
+  onClose: () => void
+}
+export const MetadataEditor: React.FC<MetadataEditorProps> = ({
+  book,
+  onSave,
+  onClose,
+}) => {
+  const [overrides, setOverrides] = useState<MetadataOverrides>(
+    book.metadataOverrides ?? {},
+  )
+  const [images, setImages] = useState<string[]>()
+  const fileRef = useRef<HTMLInputElement>(null)
+  const originalCover = useLiveQuery(() => db?.covers.get(book.id), [book.id])
+  const original = originalMetadata(book)
+  const t = useTranslation('metadata')
+
+  const set = <K extends keyof MetadataOverrides>(
+    k: K,
+    v: MetadataOverrides[K],
+  ) => setOverrides((prev) => ({ ...prev, [k]: v }))
+
+  const field = (k: 'title' | 'series' | 'language' | 'publisher') => ({
+    name: t(k),
+    value: overrides[k] ?? '',
+    placeholder: original[k],
+    onChange: (e: ChangeEvent<HTMLInputElement>) => set(k, e.target.value),
+  })
+
+  useEffect(() => {
+    return () => images?.forEach((url) => URL.revokeObjectURL(url))
+  }, [images])
+
+  const cover = overrides.cover ?? originalCover?.cover ?? undefined
+
+  return (
+    <Dialog headline={t('title')} onClose={onClose}>
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault()
+          onSave(cleanOverrides(overrides))
+          onClose()
+        }}
+      >
+        <TextField {...field('title')} />
+        <TextField
+          as="textarea"
+          name={t('creators')}
+          rows={2}
+          placeholder={original.creators.join('\n')}
+          value={overrides.creators?.join('\n') ?? ''}
+          onChange={(e: ChangeEvent<HTMLTextAreaElement>) =>
+            set(
+              'creators',
+              e.target.value.split('\n').filter((c) => c.trim()),
+            )
+          }
+        />
+        <div className="flex gap-3">
+          <TextField className="grow" {...field('series')} />
+          <TextField
+            className="w-24"
+            name={t('series_index')}
+            type="number"
+            min={0}
+            step="any"
+            value={overrides.seriesIndex ?? ''}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              set(
+                'seriesIndex',
+                e.target.value === '' ? undefined : Number(e.target.value),
+              )
+            }
+          />
+        </div>
+        <div className="flex gap-3">
+          <TextField className="w-32" {...field('language')} />
+          <TextField className="grow" {...field('publisher')} />
+        </div>
+        <TextField
+          as="textarea"
+          name={t('description')}
+          rows={4}
+          placeholder={original.description}
+          value={overrides.description ?? ''}
+          onChange={(e: ChangeEvent<HTMLTextAreaElement>) =>
+            set('description', e.target.value)
+          }
+        />
+
+        <div className="typescale-label-medium text-on-surface-variant">
+          {t('cover')}
+        </div>
+        <div className="flex gap-3">
+          {cover && (
+            <img src={cover} alt="" className="h-32 w-24 object-cover" />
+          )}
+          <div className="flex flex-col items-start gap-2">
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              hidden
+              onChange={async (e) => {
+                const file = e.target.files?.[0]
+                if (file) set('cover', await resizeCover(file))
+                e.target.value = ''
+              }}
+            />
+            <Button
+              type="button"
+              variant="secondary"
+              compact
+              onClick={() => fileRef.current?.click()}
+            >
+              {t('cover.upload')}
+            </Button>
+            <Button
+              type="button"
+              variant="secondary"
+              compact
+              disabled={!!images}
+              onClick={async () => {
+                const blobs = await bookImages(book.id)
+                setImages(blobs.map((b) => URL.createObjectURL(b)))
+              }}
+            >
+              {t('cover.pick')}
+            </Button>
+            {overrides.cover && (
+              <Button
+                type="button"
+                variant="secondary"
+                compact
+                onClick={() => set('cover', undefined)}
+              >
+                {t('cover.reset')}
+              </Button>
+            )}
+          </div>
+        </div>
+        {images && (
+          <ul className="flex flex-wrap gap-2">
+            {images.map((url) => (
+              <li key={url}>
+                <button
+                  type="button"
+                  onClick={async () => set('cover', await resizeCover(url))}
+                >
+                  <img src={url} alt="" className="h-24 w-16 object-cover" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => setOverrides({})}
+          >
+            {t('reset')}
+          </Button>
+          <Button type="submit">{t('save')}</Button>
+        </div>
+      </form>
+    </Dialog>
+  )
+}
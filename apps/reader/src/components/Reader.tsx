@@ -7,7 +7,12 @@ import React, {
   useRef,
   useState,
 } from 'react'
-import { MdChevronRight, MdWebAsset } from 'react-icons/md'
+import {
+  MdBookmark,
+  MdBookmarkBorder,
+  MdChevronRight,
+  MdWebAsset,
+} from 'react-icons/md'
 import { RiBookLine } from 'react-icons/ri'
 import { PhotoSlider } from 'react-photo-view'
 import useTilg from 'tilg'
@@ -33,25 +38,45 @@ import { isTouchScreen } from '../platform'
 import { updateCustomStyle } from '../styles'
 
 import { Annotations } from './Annotation'
+import { Button, IconButton } from './Button'
 import { Tab } from './Tab'
 import { TextSelectionMenu } from './TextSelectionMenu'
 import { DropZone, SplitView, useDndContext, useSplitViewItem } from './base'
 import * as pages from './pages'
 
+function isEditable(target: EventTarget | null) {
+  const el = target as HTMLElement | null
+  return (
+    el?.isContentEditable ||
+    el?.tagName === 'INPUT' ||
+    el?.tagName === 'TEXTAREA' ||
+    el?.tagName === 'SELECT'
+  )
+}
+
 function handleKeyDown(tab?: BookTab) {
   return (e: KeyboardEvent) => {
     try {
       switch (e.code) {
         case 'ArrowLeft':
+          tab?.left()
+          break
+        case 'ArrowRight':
+          tab?.right()
+          break
         case 'ArrowUp':
           tab?.prev()
           break
-        case 'ArrowRight':
         case 'ArrowDown':
           tab?.next()
           break
         case 'Space':
           e.shiftKey ? tab?.prev() : tab?.next()
+          break
+        case 'KeyB':
+          // e.g. Ctrl+B is a shortcut of the browser
+          if (e.ctrlKey || e.metaKey || e.altKey) break
+          if (!isEditable(e.target)) tab?.toggleBookmark()
       }
     } catch (error) {
       // ignore `rendition is undefined` error
@@ -216,7 +241,7 @@ function BookPane({ tab, onMouseDown }: BookPaneProps) {
   const [background] = useBackground()
   const [settings] = useSettings()
 
-  const { iframe, rendition, rendered } = useSnapshot(tab)
+  const { iframe, rendition, rendered, comic, missingFile } = useSnapshot(tab)
   const [aiState, setAiState] = useAiState()
 
   useTilg()
@@ -263,8 +288,17 @@ function BookPane({ tab, onMouseDown }: BookPaneProps) {
      * then call {@link updateCustomStyle} to update custom style
      * according to the latest layout
      */
-    rendition?.spread(typography.spread ?? RenditionSpread.Auto)
-  }, [typography.spread, rendition])
+    rendition?.spread(
+      // a spread of two pages can not fit the width of one
+      comic?.fit === 'width'
+        ? RenditionSpread.None
+        : typography.spread ?? RenditionSpread.Auto,
+    )
+  }, [typography.spread, rendition, comic?.fit])
+
+  useEffect(() => {
+    if (rendition) tab.applyComic()
+  }, [rendition, tab, comic?.fit, comic?.rtl])
 
   useEffect(() => applyCustomStyle(), [applyCustomStyle])
 
@@ -363,11 +397,11 @@ function BookPane({ tab, onMouseDown }: BookPaneProps) {
       }
 
       if (deltaX > 0) {
-        tab.prev()
+        tab.left()
       }
 
       if (deltaX < 0) {
-        tab.next()
+        tab.right()
       }
     }
   })
@@ -471,19 +505,53 @@ function BookPane({ tab, onMouseDown }: BookPaneProps) {
           )}
         >
           <div className="flex h-full items-center justify-center">
-            <span className="typescale-body-medium text-on-surface/80">
-              正在加载图书…
-            </span>
+            {missingFile ? (
+              <MissingFile tab={tab} />
+            ) : (
+              <span className="typescale-body-medium text-on-surface/80">
+                正在加载图书…
+              </span>
+            )}
           </div>
         </div>
         <TextSelectionMenu tab={tab} />
         <Annotations tab={tab} />
+        <BookmarkIndicator tab={tab} />
       </div>
       <ReaderPaneFooter tab={tab} />
     </div>
   )
 }
 
+interface MissingFileProps {
+  tab: BookTab
+}
+const MissingFile: React.FC<MissingFileProps> = ({ tab }) => {
+  const fileRef = useRef<HTMLInputElement>(null)
+  const t = useTranslation('storage')
+
+  return (
+    <div className="flex flex-col items-center gap-3 p-4 text-center">
+      <span className="typescale-body-medium text-on-surface/80">
+        {t('missing').replace('{name}', tab.title)}
+      </span>
+      <input
+        ref={fileRef}
+        type="file"
+        hidden
+        onChange={async (e) => {
+          const file = e.target.files?.[0]
+          e.target.value = ''
+          if (file && !(await tab.attachFile(file))) {
+            window.alert(t('mismatch').replace('{name}', tab.title))
+          }
+        }}
+      />
+      <Button onClick={() => fileRef.current?.click()}>{t('choose')}</Button>
+    </div>
+  )
+}
+
 function clearVocabularyHighlights(doc: Document) {
   const spans = Array.from(doc.querySelectorAll<HTMLSpanElement>('.vocab-highlight'))
   for (const span of spans) {
@@ -783,8 +851,10 @@ interface ReaderPaneHeaderProps {
   tab: BookTab
 }
 const ReaderPaneHeader: React.FC<ReaderPaneHeaderProps> = ({ tab }) => {
-  const { location } = useSnapshot(tab)
+  const { location, displayedBookmarks } = useSnapshot(tab)
   const navPath = tab.getNavPath()
+  const t = useTranslation('bookmark')
+  const bookmarked = displayedBookmarks.length > 0
 
   useEffect(() => {
     navPath.forEach((i) => (i.expanded = true))
@@ -838,10 +908,36 @@ const ReaderPaneHeader: React.FC<ReaderPaneHeaderProps> = ({ tab }) => {
           {location.start.displayed.page} / {location.start.displayed.total}
         </button>
       )}
+      {location && (
+        <IconButton
+          title={`${t(bookmarked ? 'remove' : 'add')} (B)`}
+          Icon={bookmarked ? MdBookmark : MdBookmarkBorder}
+          className={clsx('shrink-0', bookmarked && 'text-primary')}
+          onClick={() => tab.toggleBookmark()}
+        />
+      )}
     </Bar>
   )
 }
 
+interface BookmarkIndicatorProps {
+  tab: BookTab
+}
+const BookmarkIndicator: React.FC<BookmarkIndicatorProps> = ({ tab }) => {
+  const { displayedBookmarks } = useSnapshot(tab)
+  const bookmark = displayedBookmarks[0]
+
+  if (!bookmark) return null
+  return (
+    <div
+      title={bookmark.title || bookmark.excerpt}
+      className="text-primary pointer-events-none absolute top-0 right-2 z-10"
+    >
+      <MdBookmark size={24} />
+    </div>
+  )
+}
+
 interface FooterProps {
   tab: BookTab
 }
@@ -0,0 +1,224 @@
+import { useEffect, useState } from 'react'
+import { useSnapshot } from 'valtio'
+
+import { BookRecord } from '../db'
+import { useTranslation } from '../hooks'
+import { displayTitle } from '../metadata'
+import {
+  Backup,
+  defaultRestoreAction,
+  RestoreAction,
+  restoreActions,
+  restoreBackup,
+  restoredBook,
+  RestoreItem,
+  restoreItems,
+  restoreState,
+} from '../restore'
+
+import { Button } from './Button'
+import { Dialog } from './Dialog'
+import { Select } from './Form'
+
+export const RestoreDialog: React.FC = () => {
+  const { backup } = useSnapshot(restoreState)
+  if (!backup) return null
+  return (
+    <RestoreDialogContent
+      backup={backup as Backup}
+      onClose={() => (restoreState.backup = undefined)}
+    />
+  )
+}
+
+interface RestoreDialogContentProps {
+  backup: Backup
+  onClose: () => void
+}
+const RestoreDialogContent: React.FC<RestoreDialogContentProps> = ({
+  backup,
+  onClose,
+}) => {
+  const [items, setItems] = useState<RestoreItem[]>()
+  const [actions, setActions] = useState<Record<string, RestoreAction>>({})
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string>()
+  const t = useTranslation('restore')
+
+  useEffect(() => {
+    restoreItems(backup).then(setItems)
+  }, [backup])
+
+  const actionOf = (item: RestoreItem) =>
+    actions[item.book.id] ?? defaultRestoreAction(item)
+
+  return (
+    <Dialog headline={t('title')} onClose={onClose}>
+      <div className="mb-3 flex items-center justify-between gap-2">
+        <span className="typescale-body-small text-outline">
+          {t('summary').replace('{n}', '' + backup.books.length)}
+        </span>
+        <Select
+          value=""
+          onChange={(e) => {
+            const action = e.target.value as RestoreAction
+            setActions(
+              Object.fromEntries(
+                items?.map((item) => [
+                  item.book.id,
+                  // books not in the library can't be merged
+                  action === 'merge' && !item.local ? 'replace' : action,
+                ]) ?? [],
+              ),
+            )
+          }}
+        >
+          <option value="" disabled>
+            {t('apply_to_all')}
+          </option>
+          {restoreActions.map((action) => (
+            <option key={action} value={action}>
+              {t(`action.${action}`)}
+            </option>
+          ))}
+        </Select>
+      </div>
+      {!!backup.invalid?.length && (
+        <div className="typescale-body-small text-error mb-3">
+          {t('invalid').replace('{names}', backup.invalid.join(', '))}
+        </div>
+      )}
+
+      <ul className="space-y-3">
+        {items?.map((item) => (
+          <RestoreRow
+            key={item.book.id}
+            item={item}
+            action={actionOf(item)}
+            onChange={(action) =>
+              setActions((prev) => ({ ...prev, [item.book.id]: action }))
+            }
+          />
+        ))}
+      </ul>
+
+      {error && (
+        <div className="typescale-body-small text-error mt-3">
+          {t('failed').replace('{error}', error)}
+        </div>
+      )}
+      <div className="mt-4 flex justify-end gap-2">
+        <Button variant="secondary" onClick={onClose}>
+          {t('cancel')}
+        </Button>
+        <Button
+          disabled={!items || restoring}
+          onClick={async () => {
+            if (!items) return
+            setRestoring(true)
+            setError(undefined)
+            try {
+              await restoreBackup(backup, items, actions)
+              onClose()
+            } catch (error) {
+              console.error(error)
+              setError(error instanceof Error ? error.message : String(error))
+              setRestoring(false)
+            }
+          }}
+        >
+          {t('restore')}
+        </Button>
+      </div>
+    </Dialog>
+  )
+}
+
+interface RestoreRowProps {
+  item: RestoreItem
+  action: RestoreAction
+  onChange: (action: RestoreAction) => void
+}
+const RestoreRow: React.FC<RestoreRowProps> = ({ item, action, onChange }) => {
+  const t = useTranslation('restore')
+  const { book, local } = item
+  const result = restoredBook(item, action) ?? local
+
+  return (
+    <li className="border-surface-variant border-t pt-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="typescale-body-medium text-on-surface-variant truncate">
+          {displayTitle(book)}
+        </span>
+        <Select
+          value={action}
+          onChange={(e) => onChange(e.target.value as RestoreAction)}
+        >
+          {restoreActions
+            .filter((a) => local || a !== 'merge')
+            .map((a) => (
+              <option key={a} value={a}>
+                {t(local || a === 'skip' ? `action.${a}` : 'action.add')}
+              </option>
+            ))}
+        </Select>
+      </div>
+      <table className="typescale-body-small text-outline mt-1">
+        <thead>
+          <tr>
+            <th />
+            <th className="px-2 text-right font-normal">{t('local')}</th>
+            <th className="px-2 text-right font-normal">{t('backup')}</th>
+            <th className="px-2 text-right font-normal">{t('result')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          <Row
+            name={t('progress')}
+            books={[local, book, result]}
+            value={(b) =>
+              b.percentage === undefined
+                ? '-'
+                : `${(b.percentage * 100).toFixed()}%`
+            }
+          />
+          <Row
+            name={t('updated_at')}
+            books={[local, book, result]}
+            value={(b) =>
+              b.updatedAt ? new Date(b.updatedAt).toLocaleDateString() : '-'
+            }
+          />
+          <Row
+            name={t('annotations')}
+            books={[local, book, result]}
+            value={(b) => b.annotations.length}
+          />
+          <Row
+            name={t('definitions')}
+            books={[local, book, result]}
+            value={(b) => b.definitions.length}
+          />
+        </tbody>
+      </table>
+    </li>
+  )
+}
+
+interface RowProps {
+  name: string
+  books: (BookRecord | undefined)[]
+  value: (book: BookRecord) => React.ReactNode
+}
+const Row: React.FC<RowProps> = ({ name, books, value }) => {
+  return (
+    <tr>
+      <td className="pr-2">{name}</td>
+      {books.map((b, i) => (
+        <td key={i} className="px-2 text-right">
+          {b ? value(b) : '-'}
+        </td>
+      ))}
+    </tr>
+  )
+}
@@ -11,9 +11,10 @@ import {
 } from 'react-icons/md'
 import { useSnapshot } from 'valtio'
 
-import { typeMap, colorMap } from '../annotation'
+import { typeMap, withAlpha } from '../annotation'
 import {
   isForwardSelection,
+  useAnnotationColors,
   useMobile,
   useSetAction,
   useTextSelection,
@@ -256,6 +257,7 @@ const TextSelectionMenuRenderer: React.FC<TextSelectionMenuRendererProps> = ({
   const [height, setHeight] = useState(0)
   const mobile = useMobile()
   const t = useTranslation('menu')
+  const { colors } = useAnnotationColors()
 
   const cfi = tab.rangeToCfi(range)
   const annotation = tab.book.annotations.find((a) => a.cfi === cfi)
@@ -382,11 +384,13 @@ const TextSelectionMenuRenderer: React.FC<TextSelectionMenuRendererProps> = ({
         <div className="space-y-2">
           {keys(typeMap).map((type) => (
             <div key={type} className="flex gap-2">
-              {keys(colorMap).map((color) => (
+              {colors.map(({ id, color, label }) => (
                 <div
-                  key={color}
+                  key={id}
+                  title={label ? `${t(type)} (${label})` : t(type)}
                   style={{
-                    [typeMap[type].style]: colorMap[color],
+                    [typeMap[type].style]:
+                      type === 'highlight' ? withAlpha(color, 0.2) : color,
                     width: ANNOTATION_SIZE,
                     height: ANNOTATION_SIZE,
                     fontSize: scale(16, 20),
@@ -394,15 +398,12 @@ const TextSelectionMenuRenderer: React.FC<TextSelectionMenuRendererProps> = ({
                   className={clsx(
                     'typescale-body-large text-on-surface-variant flex cursor-pointer items-center justify-center',
                     typeMap[type].class,
+                    annotation?.type === type &&
+                      annotation.color === id &&
+                      'ring-outline ring-1',
                   )}
                   onClick={() => {
-                    tab.putAnnotation(
-                      type,
-                      cfi,
-                      color,
-                      text,
-                      ref.current?.value,
-                    )
+                    tab.putAnnotation(type, cfi, id, text, ref.current?.value)
                     hide()
                   }}
                 >
@@ -433,7 +434,7 @@ const TextSelectionMenuRenderer: React.FC<TextSelectionMenuRendererProps> = ({
                 tab.putAnnotation(
                   annotation?.type ?? 'highlight',
                   cfi,
-                  annotation?.color ?? 'yellow',
+                  annotation?.color ?? colors[0]!.id,
                   text,
                   ref.current?.value,
                 )
@@ -1,12 +1,18 @@
 export * from './Annotation'
+export * from './BackupDialog'
 export * from './base'
 export * from './Button'
+export * from './Chip'
+export * from './Dialog'
 export * from './ErrorBoundary'
 export * from './Form'
 export * from './Layout'
+export * from './LibrarySearch'
+export * from './MetadataEditor'
 export * from './Page'
 export * from './pages'
 export * from './Reader'
+export * from './RestoreDialog'
 export * from './Row'
 export * from './Tab'
 export * from './TextSelectionMenu'
@@ -0,0 +1,223 @@
+import { useState } from 'react'
+
+import { parseCalibre } from '@flow/reader/calibre'
+import { useLibrary, useTranslation } from '@flow/reader/hooks'
+import {
+  ImportedHighlight,
+  importHighlights,
+  ImportedBookmark,
+  ImportFailure,
+  ImportPreview,
+  previewHighlights,
+} from '@flow/reader/importer'
+import { clippingsToHighlights, parseClippings } from '@flow/reader/kindle'
+import { parseKOReader } from '@flow/reader/koreader'
+import { decodeText } from '@flow/reader/text'
+import {
+  isWebAnnotations,
+  parseWebAnnotations,
+} from '@flow/reader/webannotation'
+
+import { Button } from '../Button'
+import { Select } from '../Form'
+import { Page } from '../Page'
+
+const EXCERPT_LENGTH = 80
+
+async function readHighlights(file: File): Promise<{
+  highlights: ImportedHighlight[]
+  orphans: ImportedHighlight[]
+  bookmarks?: ImportedBookmark[]
+}> {
+  const content = await decodeText(file)
+  const [name, ext] = file.name.split(/\.(?=[^.]+$)/)
+
+  switch (ext?.toLowerCase()) {
+    case 'txt':
+      return clippingsToHighlights(parseClippings(content))
+    case 'lua':
+      return { highlights: parseKOReader(content), orphans: [] }
+    case 'jsonld':
+      return { ...parseWebAnnotations(content), orphans: [] }
+    case 'json':
+    case 'calibre_highlights':
+      return isWebAnnotations(JSON.parse(content))
+        ? { ...parseWebAnnotations(content), orphans: [] }
+        : { highlights: parseCalibre(content, name!), orphans: [] }
+    default:
+      throw new Error(`Unsupported file: ${file.name}`)
+  }
+}
+
+function excerpt({ text, notes }: ImportedHighlight) {
+  const t = (text || notes || '').replace(/\s+/g, ' ')
+  return t.length > EXCERPT_LENGTH ? t.slice(0, EXCERPT_LENGTH) + '…' : t
+}
+
+export const ImportAnnotations: React.FC = () => {
+  const [bookId, setBookId] = useState('')
+  const [progress, setProgress] = useState<[number, number]>()
+  const [preview, setPreview] = useState<ImportPreview>()
+  const [imported, setImported] = useState<number>()
+  const [error, setError] = useState<string>()
+  const books = useLibrary()
+  const t = useTranslation('import')
+
+  const previewFile = async (file: File) => {
+    setPreview(undefined)
+    setImported(undefined)
+    setError(undefined)
+    setProgress([0, 0])
+    try {
+      const { highlights, orphans, bookmarks } = await readHighlights(file)
+      const preview = await previewHighlights(highlights, {
+        bookId: bookId || undefined,
+        bookmarks,
+        onProgress: (done, total) => setProgress([done, total]),
+      })
+      preview.failures.push(
+        ...orphans.map(
+          (highlight): ImportFailure => ({ highlight, reason: 'no_highlight' }),
+        ),
+      )
+      setPreview(preview)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+    } finally {
+      setProgress(undefined)
+    }
+  }
+
+  const importPreview = async () => {
+    if (!preview) return
+    try {
+      setImported(await importHighlights(preview))
+      setPreview(undefined)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const busy = !!progress
+
+  return (
+    <Page headline={t('title')}>
+      <div className="typescale-body-medium text-on-surface-variant mb-6 space-y-3">
+        <p>{t('description')}</p>
+        <p>{t('formats')}</p>
+        <Select
+          name={t('book')}
+          value={bookId}
+          disabled={busy}
+          onChange={(e) => setBookId(e.target.value)}
+        >
+          <option value="">{t('book.match')}</option>
+          {books?.map((b) => (
+            <option key={b.id} value={b.id}>
+              {b.name}
+            </option>
+          ))}
+        </Select>
+        <Button className="relative" disabled={busy}>
+          <input
+            type="file"
+            accept=".txt,.lua,.json,.jsonld,.calibre_highlights"
+            className="absolute inset-0 cursor-pointer opacity-0"
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              e.target.value = ''
+              if (file) previewFile(file)
+            }}
+          />
+          {t('file')}
+        </Button>
+        {progress && (
+          <div>
+            {t('progress')
+              .replace('{done}', '' + progress[0])
+              .replace('{total}', '' + progress[1])}
+          </div>
+        )}
+        {error && <div className="text-error">{error}</div>}
+        {imported !== undefined && (
+          <div>{t('imported').replace('{n}', '' + imported)}</div>
+        )}
+        {preview && (
+          <>
+            <div>
+              {t('preview')
+                .replace('{matched}', '' + preview.matches.length)
+                .replace('{bookmarks}', '' + preview.bookmarks.length)
+                .replace('{duplicated}', '' + preview.duplicated)
+                .replace('{failed}', '' + preview.failures.length)}
+            </div>
+            <div className="space-x-2">
+              <Button
+                disabled={!preview.matches.length && !preview.bookmarks.length}
+                onClick={importPreview}
+              >
+                {t('import')}
+              </Button>
+              <Button variant="secondary" onClick={() => setPreview(undefined)}>
+                {t('cancel')}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {!!(preview?.matches.length || preview?.bookmarks.length) && (
+        <>
+          <h3 className="typescale-title-small text-on-surface-variant mb-2">
+            {t('matches')}
+          </h3>
+          <table className="typescale-body-small text-on-surface-variant mb-6 w-full">
+            <tbody>
+              {preview.matches.map(({ highlight, book, anchor }, i) => (
+                <tr key={i} className="border-outline/10 border-t align-top">
+                  <td className="py-1 pr-2">{book.name}</td>
+                  <td className="py-1 pr-2">{anchor.spine.title}</td>
+                  <td className="py-1">{excerpt(highlight)}</td>
+                </tr>
+              ))}
+              {preview.bookmarks.map(({ bookmark, book }, i) => (
+                <tr
+                  key={`bookmark-${i}`}
+                  className="border-outline/10 border-t align-top"
+                >
+                  <td className="py-1 pr-2">{book.name}</td>
+                  <td className="py-1 pr-2">{t('bookmark')}</td>
+                  <td className="py-1">{bookmark.name || bookmark.excerpt}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+
+      {!!preview?.failures.length && (
+        <>
+          <h3 className="typescale-title-small text-on-surface-variant mb-2">
+            {t('failures')}
+          </h3>
+          <table className="typescale-body-small text-on-surface-variant w-full">
+            <tbody>
+              {preview.failures.map(({ highlight, reason }, i) => (
+                <tr key={i} className="border-outline/10 border-t align-top">
+                  <td className="py-1 pr-2">{highlight.title}</td>
+                  <td className="py-1 pr-2">{excerpt(highlight)}</td>
+                  <td className="text-outline whitespace-nowrap py-1">
+                    {t(`reason.${reason}`)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </Page>
+  )
+}
+
+ImportAnnotations.displayName = 'import'
@@ -1 +1,6 @@
+export * from './import'
+export * from './notebook'
+export * from './opds'
 export * from './settings'
+export * from './storage'
+export * from './sync'
@@ -0,0 +1,237 @@
+import { ChangeEvent, useMemo, useState } from 'react'
+
+import { typeMap } from '@flow/reader/annotation'
+import {
+  useAnnotationColors,
+  useLibrary,
+  useTranslation,
+} from '@flow/reader/hooks'
+import { displayTitle } from '@flow/reader/metadata'
+import { reader } from '@flow/reader/models'
+import {
+  filterEntries,
+  notebookEntries,
+  NotebookFilter,
+  NotebookSort,
+  notebookSorts,
+  recolorAnnotations,
+  removeAnnotations,
+  sortEntries,
+} from '@flow/reader/notebook'
+import { keys } from '@flow/reader/utils'
+
+import { Button } from '../Button'
+import { Select, TextField } from '../Form'
+import { Page } from '../Page'
+
+export const Notebook: React.FC = () => {
+  const books = useLibrary()
+  const { colors, findColor } = useAnnotationColors()
+  const [filter, setFilter] = useState<NotebookFilter>({})
+  const [sort, setSort] = useState<NotebookSort>('newest')
+  const [selected, setSelected] = useState<string[]>([])
+  const t = useTranslation('notebook')
+  const ta = useTranslation('annotation')
+
+  const entries = useMemo(() => notebookEntries(books ?? []), [books])
+  const annotatedBooks = useMemo(
+    () => books?.filter((b) => b.annotations.length) ?? [],
+    [books],
+  )
+  const filtered = useMemo(
+    () => sortEntries(filterEntries(entries, filter), sort, colors),
+    [colors, entries, filter, sort],
+  )
+
+  // selected annotations hidden by the filter are not changed
+  const selectedEntries = filtered.filter((e) =>
+    selected.includes(e.annotation.id),
+  )
+  const allSelected =
+    !!filtered.length && selectedEntries.length === filtered.length
+
+  const updateFilter = (changes: NotebookFilter) =>
+    setFilter((f) => ({ ...f, ...changes }))
+
+  return (
+    <Page headline={t('title')}>
+      <div className="mb-4 flex flex-wrap items-end gap-2">
+        <TextField
+          name={t('search')}
+          hideLabel
+          placeholder={t('search')}
+          className="w-60"
+          value={filter.query ?? ''}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            updateFilter({ query: e.target.value })
+          }
+          onClear={() => updateFilter({ query: '' })}
+        />
+        <Select
+          aria-label={t('book')}
+          value={filter.bookId ?? ''}
+          onChange={(e) => updateFilter({ bookId: e.target.value })}
+        >
+          <option value="">{t('all_books')}</option>
+          {annotatedBooks.map((b) => (
+            <option key={b.id} value={b.id}>
+              {displayTitle(b)}
+            </option>
+          ))}
+        </Select>
+        <Select
+          aria-label={ta('filter.type')}
+          value={filter.type ?? ''}
+          onChange={(e) => updateFilter({ type: e.target.value })}
+        >
+          <option value="">{ta('filter.all_types')}</option>
+          {keys(typeMap).map((type) => (
+            <option key={type} value={type}>
+              {ta(`type.${type}`)}
+            </option>
+          ))}
+        </Select>
+        <Select
+          aria-label={ta('filter.color')}
+          value={filter.color ?? ''}
+          onChange={(e) => updateFilter({ color: e.target.value })}
+        >
+          <option value="">{ta('filter.all_colors')}</option>
+          {colors.map(({ id, color, label }) => (
+            <option key={id} value={id} style={{ color }}>
+              {label || color}
+            </option>
+          ))}
+        </Select>
+        <TextField
+          name={t('from')}
+          type="date"
+          value={filter.from ?? ''}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            updateFilter({ from: e.target.value })
+          }
+        />
+        <TextField
+          name={t('to')}
+          type="date"
+          value={filter.to ?? ''}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            updateFilter({ to: e.target.value })
+          }
+        />
+        <Select
+          name={t('sort')}
+          value={sort}
+          onChange={(e) => setSort(e.target.value as NotebookSort)}
+        >
+          {notebookSorts.map((s) => (
+            <option key={s} value={s}>
+              {t(`sort.${s}`)}
+            </option>
+          ))}
+        </Select>
+      </div>
+
+      <div className="typescale-body-small text-on-surface-variant mb-2 flex items-center gap-3">
+        <input
+          type="checkbox"
+          aria-label={t('select_all')}
+          checked={allSelected}
+          disabled={!filtered.length}
+          onChange={() =>
+            setSelected(allSelected ? [] : filtered.map((e) => e.annotation.id))
+          }
+        />
+        <span>
+          {selectedEntries.length
+            ? t('selected').replace('{n}', '' + selectedEntries.length)
+            : t('total').replace('{n}', '' + filtered.length)}
+        </span>
+        {!!selectedEntries.length && (
+          <>
+            <Select
+              aria-label={t('recolor')}
+              value=""
+              onChange={async (e) => {
+                await recolorAnnotations(selectedEntries, e.target.value)
+              }}
+            >
+              <option value="" disabled>
+                {t('recolor')}
+              </option>
+              {colors.map(({ id, color, label }) => (
+                <option key={id} value={id} style={{ color }}>
+                  {label || color}
+                </option>
+              ))}
+            </Select>
+            <Button
+              variant="secondary"
+              compact
+              onClick={async () => {
+                if (!window.confirm(t('delete.confirm'))) return
+                await removeAnnotations(selectedEntries)
+                setSelected([])
+              }}
+            >
+              {t('delete')}
+            </Button>
+          </>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {filtered.map(({ book, annotation: a }) => (
+          <li key={a.id} className="border-outline/10 flex gap-3 border-t py-2">
+            <input
+              type="checkbox"
+              className="mt-1"
+              aria-label={t('select')}
+              checked={selected.includes(a.id)}
+              onChange={(e) =>
+                setSelected((s) =>
+                  e.target.checked
+                    ? [...s, a.id]
+                    : s.filter((id) => id !== a.id),
+                )
+              }
+            />
+            <button
+              className="min-w-0 flex-1 text-left"
+              title={t('open')}
+              onClick={() => reader.openBook(book, a.cfi)}
+            >
+              <div
+                className="typescale-body-medium text-on-surface line-clamp-3 border-l-2 pl-2"
+                style={{ borderColor: findColor(a.color).color }}
+              >
+                {a.text}
+              </div>
+              {a.notes && (
+                <div className="typescale-body-small text-on-surface-variant mt-1 whitespace-pre-wrap pl-2.5">
+                  {a.notes}
+                </div>
+              )}
+              <div className="typescale-body-small text-outline mt-1 truncate pl-2.5">
+                {[
+                  displayTitle(book),
+                  a.spine.title,
+                  new Date(a.createAt).toLocaleDateString(),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+      {!filtered.length && (
+        <div className="typescale-body-medium text-outline">
+          {entries.length ? t('no_results') : t('empty')}
+        </div>
+      )}
+    </Page>
+  )
+}
+
+Notebook.displayName = 'notebook'
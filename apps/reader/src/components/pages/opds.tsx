@@ -0,0 +1,357 @@
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { MdArrowBack, MdDelete } from 'react-icons/md'
+import { v4 as uuidv4 } from 'uuid'
+
+import { BookRecord } from '@flow/reader/db'
+import { useTranslation } from '@flow/reader/hooks'
+import { reader } from '@flow/reader/models'
+import {
+  acquisitionExt,
+  downloadEntry,
+  fillSearchTemplate,
+  loadFeed,
+  OpdsCatalog,
+  OpdsEntry,
+  OpdsFeed,
+  OpdsLink,
+  searchTemplate,
+} from '@flow/reader/opds'
+import { useOpdsCatalogs } from '@flow/reader/state'
+import { last } from '@flow/reader/utils'
+
+import { Button, IconButton } from '../Button'
+import { Chip } from '../Chip'
+import { TextField } from '../Form'
+import { Page } from '../Page'
+
+export const Opds: React.FC = () => {
+  const [catalogs, setCatalogs] = useOpdsCatalogs()
+  const [selectedId, setSelectedId] = useState(catalogs[0]?.id)
+  const catalog = catalogs.find((c) => c.id === selectedId)
+  const t = useTranslation('opds')
+
+  return (
+    <Page headline={t('title')}>
+      <div className="mb-4 flex flex-wrap gap-2">
+        {catalogs.map((c) => (
+          <Chip
+            key={c.id}
+            selected={c.id === catalog?.id}
+            onClick={() => setSelectedId(c.id)}
+          >
+            {c.title}
+          </Chip>
+        ))}
+        <Chip selected={!catalog} onClick={() => setSelectedId(undefined)}>
+          {t('catalog.add')}
+        </Chip>
+      </div>
+      {catalog ? (
+        <CatalogBrowser
+          key={catalog.id}
+          catalog={catalog}
+          onRemove={() => {
+            setCatalogs((prev) => prev.filter((c) => c.id !== catalog.id))
+            setSelectedId(undefined)
+          }}
+        />
+      ) : (
+        <CatalogForm
+          onSubmit={(c) => {
+            setCatalogs((prev) => [...prev, c])
+            setSelectedId(c.id)
+          }}
+        />
+      )}
+    </Page>
+  )
+}
+
+Opds.displayName = 'opds'
+
+interface CatalogFormProps {
+  onSubmit: (catalog: OpdsCatalog) => void
+}
+const CatalogForm: React.FC<CatalogFormProps> = ({ onSubmit }) => {
+  const [title, setTitle] = useState('')
+  const [url, setUrl] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
+  const t = useTranslation('opds.catalog')
+
+  return (
+    <form
+      className="max-w-md space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSubmit({
+          id: uuidv4(),
+          title: title || new URL(url).host,
+          url,
+          username: username || undefined,
+          password: password || undefined,
+        })
+      }}
+    >
+      <TextField
+        name={t('url')}
+        type="url"
+        required
+        placeholder="http://192.168.1.2:8080/opds"
+        value={url}
+        onChange={(e: ChangeEvent<HTMLInputElement>) => setUrl(e.target.value)}
+      />
+      <TextField
+        name={t('title')}
+        value={title}
+        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+          setTitle(e.target.value)
+        }
+      />
+      <TextField
+        name={t('username')}
+        autoComplete="off"
+        value={username}
+        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+          setUsername(e.target.value)
+        }
+      />
+      <TextField
+        name={t('password')}
+        type="password"
+        autoComplete="new-password"
+        value={password}
+        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+          setPassword(e.target.value)
+        }
+      />
+      <Button type="submit">{t('save')}</Button>
+    </form>
+  )
+}
+
+interface CatalogBrowserProps {
+  catalog: OpdsCatalog
+  onRemove: () => void
+}
+const CatalogBrowser: React.FC<CatalogBrowserProps> = ({
+  catalog,
+  onRemove,
+}) => {
+  // urls of visited feeds, for going back
+  const [history, setHistory] = useState([catalog.url])
+  const [feed, setFeed] = useState<OpdsFeed>()
+  const [error, setError] = useState<string>()
+  const [template, setTemplate] = useState<string>()
+  const [query, setQuery] = useState('')
+  const t = useTranslation('opds')
+  const url = last(history)!
+
+  useEffect(() => {
+    let canceled = false
+    setFeed(undefined)
+    setError(undefined)
+    loadFeed(catalog, url)
+      .then((f) => canceled || setFeed(f))
+      .catch((e) => canceled || setError(String(e)))
+    return () => {
+      canceled = true
+    }
+  }, [catalog, url])
+
+  // the search of the root feed covers the whole catalog
+  useEffect(() => {
+    if (!feed || template) return
+    searchTemplate(catalog, feed)
+      .then(setTemplate)
+      .catch((e) => console.error(e))
+  }, [catalog, feed, template])
+
+  const open = (href: string) => setHistory((prev) => [...prev, href])
+  const pagination = ['previous', 'next']
+    .map((rel) => feed?.links.find((l) => l.rel === rel))
+    .filter((l): l is OpdsLink => !!l)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        {history.length > 1 && (
+          <IconButton
+            title={t('back')}
+            Icon={MdArrowBack}
+            size={20}
+            onClick={() => setHistory((prev) => prev.slice(0, -1))}
+          />
+        )}
+        <h2 className="typescale-title-medium text-on-surface-variant grow truncate">
+          {feed?.title ?? catalog.title}
+        </h2>
+        <IconButton
+          title={t('catalog.remove')}
+          Icon={MdDelete}
+          size={20}
+          onClick={() => {
+            if (window.confirm(t('catalog.remove_confirm'))) onRemove()
+          }}
+        />
+      </div>
+      {template && (
+        <form
+          className="max-w-md"
+          onSubmit={(e) => {
+            e.preventDefault()
+            if (query) open(fillSearchTemplate(template, query))
+          }}
+        >
+          <TextField
+            name={t('search')}
+            hideLabel
+            type="search"
+            placeholder={t('search')}
+            value={query}
+            onChange={(e: ChangeEvent<HTMLInputElement>) =>
+              setQuery(e.target.value)
+            }
+          />
+        </form>
+      )}
+      {error && (
+        <div className="rounded bg-red-500/10 p-3 text-sm text-red-700 dark:text-red-300">
+          {error}
+        </div>
+      )}
+      {!feed && !error && (
+        <div className="text-outline typescale-body-medium">{t('loading')}</div>
+      )}
+      {feed && !feed.entries.length && (
+        <div className="text-outline typescale-body-medium">{t('empty')}</div>
+      )}
+      <ul className="space-y-2">
+        {feed?.entries.map((e) => (
+          <EntryItem key={e.id} catalog={catalog} entry={e} onOpen={open} />
+        ))}
+      </ul>
+      {!!pagination.length && (
+        <div className="flex gap-2">
+          {pagination.map((l) => (
+            <Button
+              key={l.rel}
+              variant="secondary"
+              onClick={() => open(l.href)}
+            >
+              {t(`page.${l.rel}`)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface EntryItemProps {
+  catalog: OpdsCatalog
+  entry: OpdsEntry
+  onOpen: (href: string) => void
+}
+const EntryItem: React.FC<EntryItemProps> = ({ catalog, entry, onOpen }) => {
+  const [downloading, setDownloading] = useState(false)
+  const [book, setBook] = useState<BookRecord>()
+  const [error, setError] = useState<string>()
+  const t = useTranslation('opds')
+
+  const links = entry.acquisitions.filter(acquisitionExt)
+
+  const download = async (link: OpdsLink) => {
+    setDownloading(true)
+    setError(undefined)
+    try {
+      setBook(await downloadEntry(catalog, entry, link))
+    } catch (e) {
+      setError(String(e))
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  if (entry.feed) {
+    const { href } = entry.feed
+    return (
+      <li>
+        <button
+          className="hover:bg-outline/5 w-full p-2 text-left"
+          onClick={() => onOpen(href)}
+        >
+          <div className="typescale-body-large text-on-surface">
+            {entry.title}
+          </div>
+          {entry.summary && (
+            <div className="typescale-body-small text-outline line-clamp-1">
+              {entry.summary}
+            </div>
+          )}
+        </button>
+      </li>
+    )
+  }
+
+  return (
+    <li className="flex gap-3 p-2">
+      {entry.thumbnail && (
+        <img
+          src={entry.thumbnail}
+          alt=""
+          loading="lazy"
+          className="h-24 w-16 shrink-0 object-cover"
+        />
+      )}
+      <div className="min-w-0 grow space-y-1">
+        <div className="typescale-body-large text-on-surface">
+          {entry.title}
+        </div>
+        {!!entry.authors.length && (
+          <div className="typescale-body-small text-on-surface-variant">
+            {entry.authors.join(', ')}
+          </div>
+        )}
+        {entry.summary && (
+          <div className="typescale-body-small text-outline line-clamp-2">
+            {entry.summary}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2 pt-1">
+          {book ? (
+            <Button compact onClick={() => reader.addTab(book)}>
+              {t('open')}
+            </Button>
+          ) : links.length ? (
+            links.map((l) => (
+              <Button
+                key={l.href}
+                compact
+                variant="secondary"
+                disabled={downloading}
+                onClick={() => download(l)}
+              >
+                {acquisitionExt(l)!.slice(1).toUpperCase()}
+              </Button>
+            ))
+          ) : (
+            <span className="typescale-body-small text-outline">
+              {t('unsupported')}
+            </span>
+          )}
+          {downloading && (
+            <span className="typescale-body-small text-outline">
+              {t('downloading')}
+            </span>
+          )}
+        </div>
+        {error && (
+          <div className="typescale-body-small text-red-700 dark:text-red-300">
+            {error}
+          </div>
+        )}
+      </div>
+    </li>
+  )
+}
@@ -1,12 +1,28 @@
 import Dexie from 'dexie'
 import { useRouter } from 'next/router'
-import { useState, type ChangeEvent } from 'react'
+import { useEffect, useState, type ChangeEvent } from 'react'
+import { MdDelete } from 'react-icons/md'
+import { v4 as uuidv4 } from 'uuid'
+import { useSnapshot } from 'valtio'
 
-import { useTranslation } from '@flow/reader/hooks'
+import { colorMap } from '@flow/reader/annotation'
+import { hasPassphrase } from '@flow/reader/encryption'
+import { useAnnotationColors, useTranslation } from '@flow/reader/hooks'
+import {
+  annotationVariables,
+  defaultAnnotationTemplate,
+} from '@flow/reader/markdown'
+import {
+  SyncProviderName,
+  syncProviderName,
+  syncProviderNames,
+} from '@flow/reader/providers'
+import { chooseLocalFolder, localFolder } from '@flow/reader/providers/local'
 import { useSettings, useAiState } from '@flow/reader/state'
+import { changePassphrase } from '@flow/reader/sync'
 
-import { Button } from '../Button'
-import { Checkbox, Select, TextField } from '../Form'
+import { Button, IconButton } from '../Button'
+import { Checkbox, ColorPicker, Select, TextField } from '../Form'
 import { Page } from '../Page'
 
 const envAiPrompt = process.env.NEXT_PUBLIC_AI_PROMPT
@@ -66,12 +82,14 @@ export const Settings: React.FC = () => {
         {/* Sync Tab */}
         {activeTab === 'sync' && (
           <>
+            <SyncProvider />
             <WebDavSync
               settings={settings}
               setSettings={setSettings}
               aiState={aiState}
               setAiState={setAiState}
             />
+            <Encryption />
           </>
         )}
 
@@ -90,6 +108,8 @@ export const Settings: React.FC = () => {
                 <option value="ja-JP">日本語</option>
               </Select>
             </Item>
+            <AnnotationColors />
+            <AnnotationTemplate />
             <Item title={t('ai_hotkey') || 'AI Shortcuts'}>
               <div className="space-y-2">
                 <p className="text-sm text-on-surface-variant">
@@ -176,7 +196,11 @@ const WebDavSync: React.FC<{
   }
 
   const handleChangeField = (
-    field: 'webdavUrl' | 'webdavUsername' | 'webdavPassword',
+    field:
+      | 'webdavUrl'
+      | 'webdavUsername'
+      | 'webdavPassword'
+      | 'webdavLibraryUrl',
   ) =>
     (e: ChangeEvent<HTMLInputElement>) => {
       setSettings({
@@ -294,6 +318,15 @@ const WebDavSync: React.FC<{
           value={settings.webdavPassword || ''}
           onChange={handleChangeField('webdavPassword')}
         />
+        <TextField
+          name={t('webdav_library_url')}
+          placeholder="https://example.com/remote.php/dav/files/me/flow/"
+          value={settings.webdavLibraryUrl || ''}
+          onChange={handleChangeField('webdavLibraryUrl')}
+        />
+        <p className="text-xs text-on-surface-variant">
+          {t('webdav_library_url.description')}
+        </p>
         <div className="flex gap-2">
           <Button onClick={handleUpload} disabled={syncing || !enabled}>
             {syncing ? 'Syncing...' : '上传到云端'}
@@ -316,6 +349,236 @@ const WebDavSync: React.FC<{
   )
 }
 
+const SyncProvider: React.FC = () => {
+  const [settings, setSettings] = useSettings()
+  const { handle } = useSnapshot(localFolder)
+  const [message, setMessage] = useState<string>()
+  const t = useTranslation('settings.sync_provider')
+  const provider = syncProviderName(settings)
+
+  return (
+    <Item title={t('title')}>
+      <div className="space-y-3">
+        <Select
+          value={provider}
+          onChange={(e: ChangeEvent<HTMLSelectElement>) =>
+            setSettings({
+              ...settings,
+              syncProvider: e.target.value as SyncProviderName,
+            })
+          }
+        >
+          {syncProviderNames.map((name) => (
+            <option key={name} value={name}>
+              {t(name)}
+            </option>
+          ))}
+        </Select>
+        <p className="text-sm text-on-surface-variant">
+          {t(`${provider}.description`)}
+        </p>
+        {provider === 'local' && (
+          <div className="flex items-center gap-2">
+            <Button
+              variant="secondary"
+              onClick={() =>
+                chooseLocalFolder().then(
+                  () => setMessage(undefined),
+                  (error) => {
+                    // the picker was closed
+                    if (error instanceof DOMException) return
+                    setMessage(error.message)
+                  },
+                )
+              }
+            >
+              {t('local.choose')}
+            </Button>
+            <span className="text-sm text-on-surface-variant">
+              {handle?.name ?? t('local.none')}
+            </span>
+          </div>
+        )}
+        {message && (
+          <div className="rounded bg-surface-variant/60 p-3 text-xs text-on-surface-variant">
+            {message}
+          </div>
+        )}
+      </div>
+    </Item>
+  )
+}
+
+const Encryption: React.FC = () => {
+  const [enabled, setEnabled] = useState(false)
+  const [passphrase, setPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string>()
+  const t = useTranslation('settings.encryption')
+
+  useEffect(() => {
+    hasPassphrase().then(setEnabled)
+  }, [])
+
+  const save = async (value?: string) => {
+    setSaving(true)
+    setMessage(undefined)
+    try {
+      await changePassphrase(value)
+      setEnabled(!!value)
+      setPassphrase('')
+      setConfirmation('')
+      setMessage(value ? t('saved') : t('removed'))
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Item title={t('title')}>
+      <div className="space-y-3">
+        <p className="text-sm text-on-surface-variant">
+          {enabled ? t('enabled') : t('description')}
+        </p>
+        <TextField
+          name={t(enabled ? 'new_passphrase' : 'passphrase')}
+          type="password"
+          autoComplete="new-password"
+          value={passphrase}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            setPassphrase(e.target.value)
+          }
+        />
+        <TextField
+          name={t('confirmation')}
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            setConfirmation(e.target.value)
+          }
+        />
+        <div className="flex gap-2">
+          <Button
+            disabled={saving || !passphrase || passphrase !== confirmation}
+            onClick={() => save(passphrase)}
+          >
+            {t(enabled ? 'change' : 'save')}
+          </Button>
+          {enabled && (
+            <Button
+              variant="secondary"
+              disabled={saving}
+              onClick={() => save()}
+            >
+              {t('remove')}
+            </Button>
+          )}
+        </div>
+        {message && (
+          <div className="rounded bg-surface-variant/60 p-3 text-xs text-on-surface-variant">
+            {message}
+          </div>
+        )}
+      </div>
+    </Item>
+  )
+}
+
+const AnnotationColors: React.FC = () => {
+  const { colors, setColors } = useAnnotationColors()
+  const t = useTranslation('settings.annotation_colors')
+
+  const update = (id: string, changes: { color?: string; label?: string }) =>
+    setColors(colors.map((c) => (c.id === id ? { ...c, ...changes } : c)))
+
+  return (
+    <Item title={t('title')}>
+      <div className="space-y-2">
+        <p className="text-sm text-on-surface-variant">{t('description')}</p>
+        {colors.map(({ id, color, label }) => (
+          <div key={id} className="flex items-center gap-2">
+            <ColorPicker
+              value={color}
+              onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                update(id, { color: e.target.value })
+              }
+            />
+            <TextField
+              name={id}
+              hideLabel
+              placeholder={t('label')}
+              value={label ?? ''}
+              onChange={(e: ChangeEvent<HTMLInputElement>) =>
+                update(id, { label: e.target.value || undefined })
+              }
+            />
+            {/* annotations of removed colors fall back to the first one */}
+            <IconButton
+              title={t('remove')}
+              Icon={MdDelete}
+              size={20}
+              disabled={colors.length <= 1}
+              onClick={() => setColors(colors.filter((c) => c.id !== id))}
+            />
+          </div>
+        ))}
+        <Button
+          variant="secondary"
+          compact
+          onClick={() =>
+            setColors([...colors, { id: uuidv4(), color: colorMap.yellow }])
+          }
+        >
+          {t('add')}
+        </Button>
+      </div>
+    </Item>
+  )
+}
+
+const AnnotationTemplate: React.FC = () => {
+  const [settings, setSettings] = useSettings()
+  const t = useTranslation('settings.annotation_template')
+
+  return (
+    <Item title={t('title')}>
+      <div className="space-y-2">
+        <p className="text-sm text-on-surface-variant">
+          {t('description').replace(
+            '{variables}',
+            annotationVariables.map((v) => `{{${v}}}`).join(' '),
+          )}
+        </p>
+        <TextField
+          as="textarea"
+          name="annotation-template"
+          hideLabel
+          rows={6}
+          className="font-mono"
+          value={settings.annotationTemplate || defaultAnnotationTemplate}
+          onChange={(e: ChangeEvent<HTMLTextAreaElement>) =>
+            setSettings({ ...settings, annotationTemplate: e.target.value })
+          }
+        />
+        <Button
+          variant="secondary"
+          compact
+          disabled={!settings.annotationTemplate}
+          onClick={() =>
+            setSettings({ ...settings, annotationTemplate: undefined })
+          }
+        >
+          {t('reset')}
+        </Button>
+      </div>
+    </Item>
+  )
+}
+
 interface PartProps {
   title: string
 }
@@ -0,0 +1,126 @@
+import { useLiveQuery } from 'dexie-react-hooks'
+import { useEffect, useState } from 'react'
+
+import { useLibrary, useTranslation } from '@flow/reader/hooks'
+import { displayTitle } from '@flow/reader/metadata'
+import {
+  bookUsages,
+  estimateStorage,
+  formatBytes,
+  isStoragePersisted,
+  offloadBook,
+  persistStorage,
+  totalUsage,
+} from '@flow/reader/storage'
+
+import { Button } from '../Button'
+import { Page } from '../Page'
+
+export const Storage: React.FC = () => {
+  const books = useLibrary()
+  const [estimate, setEstimate] = useState<StorageEstimate>()
+  const [persisted, setPersisted] = useState<boolean>()
+  const t = useTranslation('storage')
+
+  // re-run when files or covers change, as they are read in `bookUsages`
+  const usages = useLiveQuery(async () => books && bookUsages(books), [books])
+
+  useEffect(() => {
+    estimateStorage().then(setEstimate)
+  }, [usages])
+
+  useEffect(() => {
+    isStoragePersisted().then(setPersisted)
+  }, [])
+
+  const sorted =
+    usages && [...usages].sort((a, b) => totalUsage(b) - totalUsage(a))
+  const total = usages?.reduce((sum, u) => sum + totalUsage(u), 0) ?? 0
+
+  return (
+    <Page headline={t('title')}>
+      <div className="typescale-body-medium text-on-surface-variant mb-6 space-y-2">
+        {estimate?.quota !== undefined && (
+          <>
+            <div>
+              {t('quota')
+                .replace('{usage}', formatBytes(estimate.usage ?? 0))
+                .replace('{quota}', formatBytes(estimate.quota))}
+            </div>
+            <div className="bg-outline/10 h-1.5 w-full max-w-md">
+              <div
+                className="bg-tertiary h-full"
+                style={{
+                  width: `${((estimate.usage ?? 0) / estimate.quota) * 100}%`,
+                }}
+              />
+            </div>
+          </>
+        )}
+        <div>{t('library').replace('{size}', formatBytes(total))}</div>
+        <div className="flex items-center gap-2">
+          <span>{persisted ? t('persisted') : t('not_persisted')}</span>
+          {persisted === false && (
+            <Button
+              variant="secondary"
+              compact
+              onClick={() => persistStorage().then(setPersisted)}
+            >
+              {t('persist')}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <table className="typescale-body-small text-on-surface-variant w-full">
+        <thead className="text-outline text-left">
+          <tr>
+            <th className="py-1 font-normal">{t('book')}</th>
+            <th className="py-1 text-right font-normal">{t('file')}</th>
+            <th className="py-1 text-right font-normal">{t('cover')}</th>
+            <th className="py-1 text-right font-normal">{t('annotations')}</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {sorted?.map((usage) => {
+            const book = books?.find((b) => b.id === usage.id)
+            if (!book) return null
+            return (
+              <tr key={usage.id} className="border-surface-variant border-t">
+                <td className="max-w-0 truncate py-1 pr-2" title={book.name}>
+                  {displayTitle(book)}
+                </td>
+                <td className="whitespace-nowrap py-1 pl-2 text-right">
+                  {usage.offloaded ? t('offloaded') : formatBytes(usage.file)}
+                </td>
+                <td className="whitespace-nowrap py-1 pl-2 text-right">
+                  {formatBytes(usage.cover)}
+                </td>
+                <td className="whitespace-nowrap py-1 pl-2 text-right">
+                  {formatBytes(usage.annotations)}
+                </td>
+                <td className="py-1 pl-2 text-right">
+                  <Button
+                    variant="secondary"
+                    compact
+                    disabled={usage.offloaded || !usage.file}
+                    onClick={() => {
+                      if (window.confirm(t('offload.confirm'))) {
+                        offloadBook(book.id)
+                      }
+                    }}
+                  >
+                    {t('offload')}
+                  </Button>
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </Page>
+  )
+}
+
+Storage.displayName = 'storage'
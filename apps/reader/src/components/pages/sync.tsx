@@ -0,0 +1,81 @@
+import { useLiveQuery } from 'dexie-react-hooks'
+import { useSnapshot } from 'valtio'
+
+import { db } from '@flow/reader/db'
+import { useTranslation } from '@flow/reader/hooks'
+import { flushOutbox, syncStatus } from '@flow/reader/outbox'
+
+import { Button } from '../Button'
+import { Page } from '../Page'
+
+export const Sync: React.FC = () => {
+  const { syncing, lastSyncAt, lastError, retryAt, log, invalidBooks } =
+    useSnapshot(syncStatus)
+  const pending = useLiveQuery(() => db?.outbox.count() ?? 0)
+  const t = useTranslation('sync')
+
+  return (
+    <Page headline={t('title')}>
+      <div className="typescale-body-medium text-on-surface-variant mb-6 space-y-2">
+        <div>
+          {lastSyncAt
+            ? t('last_sync').replace(
+                '{time}',
+                new Date(lastSyncAt).toLocaleString(),
+              )
+            : t('never')}
+        </div>
+        <div>{t('pending').replace('{n}', '' + (pending ?? 0))}</div>
+        {lastError !== undefined && (
+          <div className="text-error">
+            {t('last_error').replace('{error}', lastError || t('unknown'))}
+          </div>
+        )}
+        {!!invalidBooks?.length && (
+          <div className="text-error">
+            {t('invalid').replace('{names}', invalidBooks.join(', '))}
+          </div>
+        )}
+        {retryAt && (
+          <div>
+            {t('retry').replace('{time}', new Date(retryAt).toLocaleString())}
+          </div>
+        )}
+        <Button
+          variant="secondary"
+          compact
+          disabled={syncing || !pending}
+          onClick={() => flushOutbox()}
+        >
+          {t(syncing ? 'syncing' : 'now')}
+        </Button>
+      </div>
+
+      <h3 className="typescale-title-small text-on-surface-variant mb-2">
+        {t('log')}
+      </h3>
+      {log.length ? (
+        <ul className="typescale-body-small text-on-surface-variant space-y-1">
+          {log.map((entry, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="text-outline whitespace-nowrap">
+                {new Date(entry.time).toLocaleTimeString()}
+              </span>
+              <span className={entry.type === 'failed' ? 'text-error' : ''}>
+                {t(`log.${entry.type}`)
+                  .replace('{n}', '' + entry.count)
+                  .replace('{error}', entry.error || t('unknown'))}
+              </span>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <div className="typescale-body-small text-outline">
+          {t('log.empty')}
+        </div>
+      )}
+    </Page>
+  )
+}
+
+Sync.displayName = 'sync'
@@ -1,25 +1,88 @@
 import { useBoolean } from '@literal-ui/hooks'
-import React, { Fragment } from 'react'
+import React, { Fragment, useState } from 'react'
 import { useMemo } from 'react'
-import { VscCopy } from 'react-icons/vsc'
+import {
+  VscBookmark,
+  VscCloudDownload,
+  VscCopy,
+  VscJson,
+} from 'react-icons/vsc'
 
-import { Annotation } from '@flow/reader/annotation'
-import { useTranslation } from '@flow/reader/hooks'
+import { Annotation, typeMap } from '@flow/reader/annotation'
+import { useAnnotationColors, useTranslation } from '@flow/reader/hooks'
+import { bookToMarkdown, downloadMarkdown } from '@flow/reader/markdown'
 import { reader, useReaderSnapshot } from '@flow/reader/models'
 import { copy, group, keys } from '@flow/reader/utils'
+import { downloadWebAnnotations } from '@flow/reader/webannotation'
 
+import { Select } from '../Form'
 import { Row } from '../Row'
 import { PaneViewProps, PaneView, Pane } from '../base'
 
 export const AnnotationView: React.FC<PaneViewProps> = (props) => {
   return (
     <PaneView {...props}>
+      <BookmarkPane />
       <DefinitionPane />
       <AnnotationPane />
     </PaneView>
   )
 }
 
+const BookmarkPane: React.FC = () => {
+  const { focusedBookTab } = useReaderSnapshot()
+  const t = useTranslation('bookmark')
+
+  // in reading order
+  const bookmarks = useMemo(() => {
+    const epubcfi = focusedBookTab?.rendition?.epubcfi
+    const bookmarks = [...(focusedBookTab?.bookmarks ?? [])]
+    return epubcfi
+      ? bookmarks.sort((a, b) => epubcfi.compare(a.cfi, b.cfi))
+      : bookmarks
+  }, [focusedBookTab?.bookmarks, focusedBookTab?.rendition])
+
+  return (
+    <Pane
+      headline={t('title')}
+      preferredSize={120}
+      actions={[
+        {
+          id: 'add-bookmark',
+          title: t('add'),
+          Icon: VscBookmark,
+          handle() {
+            reader.focusedBookTab?.addBookmark()
+          },
+        },
+      ]}
+    >
+      {bookmarks.map((b) => (
+        <Row
+          key={b.id}
+          title={t('rename_hint')}
+          label={b.title || b.excerpt || b.spine.title}
+          description={b.title || b.excerpt ? b.spine.title : undefined}
+          onClick={() => {
+            reader.focusedBookTab?.display(b.cfi)
+          }}
+          onDoubleClick={() => {
+            const title = window.prompt(t('rename'), b.title ?? '')
+            if (title === null) return
+            reader.focusedBookTab?.renameBookmark(
+              b.id,
+              title.trim() || undefined,
+            )
+          }}
+          onDelete={() => {
+            reader.focusedBookTab?.removeBookmarks([b.id])
+          }}
+        />
+      ))}
+    </Pane>
+  )
+}
+
 const DefinitionPane: React.FC = () => {
   const { focusedBookTab } = useReaderSnapshot()
   const t = useTranslation('annotation')
@@ -45,42 +108,38 @@ const DefinitionPane: React.FC = () => {
 const AnnotationPane: React.FC = () => {
   const { focusedBookTab } = useReaderSnapshot()
   const t = useTranslation('annotation')
+  const { colors } = useAnnotationColors()
+  const [type, setType] = useState('')
+  const [color, setColor] = useState('')
 
-  const annotations = useMemo(
+  const allAnnotations = useMemo(
     () => (focusedBookTab?.book.annotations as Annotation[]) ?? [],
     [focusedBookTab?.book.annotations],
   )
 
+  // exported annotations are filtered too
+  const annotations = useMemo(
+    () =>
+      allAnnotations.filter(
+        (a) => (!type || a.type === type) && (!color || a.color === color),
+      ),
+    [allAnnotations, color, type],
+  )
+
+  const orphanedAnnotations = useMemo(
+    () =>
+      annotations.filter((a) =>
+        focusedBookTab?.orphanedAnnotations.includes(a.id),
+      ),
+    [annotations, focusedBookTab?.orphanedAnnotations],
+  )
+
   const groupedAnnotation = useMemo(() => {
-    return group(annotations ?? [], (a) => a.spine.index)
-  }, [annotations])
-
-  const exportAnnotations = () => {
-    // process annotations to be under each section
-    // group annotations by title
-    const grouped = group(annotations, (a) => a.spine.title)
-    const exported: Record<string, any[]> = {}
-    for (const chapter in grouped) {
-      const annotations =
-        grouped[chapter]?.map((a) => {
-          const annotation: Record<string, any> = {}
-          if (a.notes !== undefined) annotation.notes = a.notes
-          if (a.text !== undefined) annotation.text = a.text
-          return annotation
-        }) ?? []
-      exported[chapter] = annotations
-    }
-
-    // Copy to clipboard as markdown
-    const exportedAnnotationsMd = Object.entries(exported)
-      .map(([chapter, annotations]) => {
-        return `## ${chapter}\n${annotations
-          .map((a) => `- ${a.text} ${a.notes ? `(${a.notes})` : ''}`)
-          .join('\n')}`
-      })
-      .join('\n\n')
-    copy(exportedAnnotationsMd)
-  }
+    return group(
+      annotations.filter((a) => !orphanedAnnotations.includes(a)),
+      (a) => a.spine.index,
+    )
+  }, [annotations, orphanedAnnotations])
 
   return (
     <Pane
@@ -93,13 +152,67 @@ const AnnotationPane: React.FC = () => {
                 title: t('copy_as_markdown'),
                 Icon: VscCopy,
                 handle() {
-                  exportAnnotations()
+                  const book = reader.focusedBookTab?.book
+                  if (book) copy(bookToMarkdown(book, annotations))
+                },
+              },
+              {
+                id: 'export-markdown',
+                title: t('export_markdown'),
+                Icon: VscCloudDownload,
+                handle() {
+                  const book = reader.focusedBookTab?.book
+                  if (book) downloadMarkdown(book, annotations)
+                },
+              },
+              {
+                id: 'export-web-annotations',
+                title: t('export_web_annotations'),
+                Icon: VscJson,
+                handle() {
+                  const book = reader.focusedBookTab?.book
+                  if (book) downloadWebAnnotations([{ ...book, annotations }])
                 },
               },
             ]
           : undefined
       }
     >
+      {allAnnotations.length > 0 && (
+        <div className="flex gap-2 px-5 py-1">
+          <Select
+            aria-label={t('filter.type')}
+            value={type}
+            onChange={(e) => setType(e.target.value)}
+          >
+            <option value="">{t('filter.all_types')}</option>
+            {keys(typeMap).map((type) => (
+              <option key={type} value={type}>
+                {t(`type.${type}`)}
+              </option>
+            ))}
+          </Select>
+          <Select
+            aria-label={t('filter.color')}
+            value={color}
+            onChange={(e) => setColor(e.target.value)}
+          >
+            <option value="">{t('filter.all_colors')}</option>
+            {colors.map(({ id, color, label }) => (
+              <option key={id} value={id} style={{ color }}>
+                {label || color}
+              </option>
+            ))}
+          </Select>
+        </div>
+      )}
+      {orphanedAnnotations.length > 0 && (
+        <AnnotationBlock
+          title={t('orphaned')}
+          description={t('orphaned_hint')}
+          annotations={orphanedAnnotations}
+        />
+      )}
       {keys(groupedAnnotation).map((k) => (
         <AnnotationBlock key={k} annotations={groupedAnnotation[k]!} />
       ))}
@@ -109,10 +222,23 @@ const AnnotationPane: React.FC = () => {
 
 interface AnnotationBlockProps {
   annotations: Annotation[]
+  // annotations not found in the book if specified
+  title?: string
+  description?: string
 }
-const AnnotationBlock: React.FC<AnnotationBlockProps> = ({ annotations }) => {
+const AnnotationBlock: React.FC<AnnotationBlockProps> = ({
+  annotations,
+  title,
+  description,
+}) => {
   const [expanded, toggle] = useBoolean(true)
 
+  // orphaned annotations open their chapters, where they can be re-created
+  const display = (a: Annotation) => {
+    const tab = reader.focusedBookTab
+    tab?.display(title ? tab.sections?.[a.spine.index]?.href : a.cfi)
+  }
+
   return (
     <div>
       <Row
@@ -121,8 +247,9 @@ const AnnotationBlock: React.FC<AnnotationBlockProps> = ({ annotations }) => {
         expanded={expanded}
         toggle={toggle}
         subitems={annotations}
+        title={description}
       >
-        {annotations[0]?.spine.title}
+        {title ?? annotations[0]?.spine.title}
       </Row>
 
       {expanded && (
@@ -131,9 +258,8 @@ const AnnotationBlock: React.FC<AnnotationBlockProps> = ({ annotations }) => {
             <Fragment key={a.id}>
               <Row
                 depth={2}
-                onClick={() => {
-                  reader.focusedBookTab?.display(a.cfi)
-                }}
+                title={title && a.spine.title}
+                onClick={() => display(a)}
                 onDelete={() => {
                   reader.focusedBookTab?.removeAnnotation(a.cfi)
                 }}
@@ -141,12 +267,7 @@ const AnnotationBlock: React.FC<AnnotationBlockProps> = ({ annotations }) => {
                 {a.text}
               </Row>
               {a.notes && (
-                <Row
-                  depth={3}
-                  onClick={() => {
-                    reader.focusedBookTab?.display(a.cfi)
-                  }}
-                >
+                <Row depth={3} onClick={() => display(a)}>
                   <span className="text-outline">{a.notes}</span>
                 </Row>
               )}
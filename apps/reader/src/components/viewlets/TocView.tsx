@@ -8,6 +8,7 @@ import {
   useMobile,
   useTranslation,
 } from '@flow/reader/hooks'
+import { displayTitle } from '@flow/reader/metadata'
 import {
   compareHref,
   dfs,
@@ -39,7 +40,7 @@ const LibraryPane: React.FC = () => {
         <button
           key={book.id}
           className="relative w-full truncate py-1 pl-5 pr-3 text-left"
-          title={book.name}
+          title={displayTitle(book)}
           draggable
           onClick={() => reader.addTab(book)}
           onDragStart={(e) => {
@@ -47,7 +48,7 @@ const LibraryPane: React.FC = () => {
           }}
         >
           <StateLayer />
-          {book.name}
+          {displayTitle(book)}
         </button>
       ))}
     </Pane>
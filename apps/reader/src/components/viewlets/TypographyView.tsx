@@ -6,6 +6,7 @@ import { RenditionSpread } from '@flow/epubjs/types/rendition'
 import { useTranslation } from '@flow/reader/hooks'
 import { reader, useReaderSnapshot } from '@flow/reader/models'
 import {
+  ComicConfiguration,
   defaultSettings,
   TypographyConfiguration,
   useSettings,
@@ -60,6 +61,21 @@ export const TypographyView: React.FC<PaneViewProps> = (props) => {
     [scope, setSettings],
   )
 
+  const setComic = useCallback(
+    <K extends keyof ComicConfiguration>(k: K, v: ComicConfiguration[K]) => {
+      reader.focusedBookTab?.updateBook({
+        configuration: {
+          ...reader.focusedBookTab.book.configuration,
+          comic: {
+            ...reader.focusedBookTab.book.configuration?.comic,
+            [k]: v,
+          },
+        },
+      })
+    },
+    [],
+  )
+
   const queryLocalFonts = useCallback(async () => {
     if (localFonts) return
     if (!('queryLocalFonts' in window)) {
@@ -114,6 +130,30 @@ export const TypographyView: React.FC<PaneViewProps> = (props) => {
             {t('page_view.double_page')}
           </option>
         </Select>
+        {scope === TypographyScope.Book && focusedBookTab?.comic && (
+          <>
+            <Select
+              name={t('comic.fit')}
+              value={focusedBookTab.comic.fit ?? 'page'}
+              onChange={(e) => {
+                setComic('fit', e.target.value as ComicConfiguration['fit'])
+              }}
+            >
+              <option value="page">{t('comic.fit.page')}</option>
+              <option value="width">{t('comic.fit.width')}</option>
+            </Select>
+            <Select
+              name={t('comic.direction')}
+              value={focusedBookTab.comic.rtl ? 'rtl' : 'ltr'}
+              onChange={(e) => {
+                setComic('rtl', e.target.value === 'rtl')
+              }}
+            >
+              <option value="ltr">{t('comic.direction.ltr')}</option>
+              <option value="rtl">{t('comic.direction.rtl')}</option>
+            </Select>
+          </>
+        )}
         <TextField
           as="input"
           name={t('font_family')}
@@ -1,24 +1,48 @@
 import { IS_SERVER } from '@literal-ui/hooks'
-import Dexie, { Table } from 'dexie'
+import Dexie, { Table, Transaction } from 'dexie'
 
 import { PackagingMetadataObject } from '@flow/epubjs/types/packaging'
 
 import { Annotation } from './annotation'
-import { fileToEpub } from './file'
-import { TypographyConfiguration } from './state'
+import { Bookmark } from './bookmark'
+import { fileToEpub, hashFile } from './file'
+import type { TextRecord } from './fulltext'
+import { ReadingStatus } from './library'
+import { mergeItems, mergeTombstones } from './merge'
+import { MetadataOverrides } from './metadata'
+import { ComicConfiguration, TypographyConfiguration } from './state'
 
 export interface FileRecord {
   id: string
   file: File
 }
 
+// files deleted to free up space, see `offloadBook`
+export interface OffloadRecord {
+  id: string
+  offloadedAt: number
+}
+
+// changes of a book not uploaded yet, see `queueChanges`
+export interface OutboxRecord {
+  bookId: string
+  changes: Partial<BookRecord>
+  updatedAt: number
+}
+
+// the sync passphrase imported as a non-extractable key, see `setPassphrase`
+export interface KeyRecord {
+  id: string
+  key: CryptoKey
+}
+
 export interface CoverRecord {
   id: string
   cover: string | null
 }
 
 export interface BookRecord {
-  // TODO: use file hash as id
+  // SHA-256 of the file content, see `hashFile`
   id: string
   name: string
   size: number
@@ -27,11 +51,27 @@ export interface BookRecord {
   updatedAt?: number
   cfi?: string
   percentage?: number
+  // when `cfi` and `percentage` were updated, see `mergeBooks`
+  progressUpdatedAt?: number
   definitions: string[]
   annotations: Annotation[]
+  // ids of deleted annotations to the time of deletion, so that other
+  // devices delete them too instead of restoring them on sync
+  deletedAnnotations?: Record<string, number>
+  bookmarks?: Bookmark[]
+  // like `deletedAnnotations`
+  deletedBookmarks?: Record<string, number>
   configuration?: {
     typography?: TypographyConfiguration
+    comic?: ComicConfiguration
   }
+  shelves?: string[]
+  tags?: string[]
+  status?: ReadingStatus
+  // 1 to `MAX_RATING` stars, unrated if undefined
+  rating?: number
+  // edited by the user, see `bookMetadata`
+  metadataOverrides?: MetadataOverrides
 }
 
 export class DB extends Dexie {
@@ -40,10 +80,80 @@ export class DB extends Dexie {
   files!: Table<FileRecord>
   covers!: Table<CoverRecord>
   books!: Table<BookRecord>
+  texts!: Table<TextRecord>
+  offloads!: Table<OffloadRecord>
+  outbox!: Table<OutboxRecord>
+  keys!: Table<KeyRecord>
 
   constructor(name: string) {
     super(name)
 
+    this.version(16).stores({
+      // not synced
+      keys: 'id',
+    })
+
+    this.version(15).stores({
+      // indexed by version, see `indexBooks`
+      texts: 'id, version',
+    })
+
+    // rekeys DBs which were upgraded to 6 without `crypto.subtle`
+    this.version(14)
+      .stores({
+        books:
+          'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, progressUpdatedAt, definitions, annotations, deletedAnnotations, bookmarks, deletedBookmarks, configuration, shelves, tags, status, rating, metadataOverrides',
+      })
+      .upgrade(rekeyFiles)
+
+    this.version(13).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, progressUpdatedAt, definitions, annotations, deletedAnnotations, bookmarks, deletedBookmarks, configuration, shelves, tags, status, rating, metadataOverrides',
+    })
+
+    this.version(12).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, progressUpdatedAt, definitions, annotations, deletedAnnotations, configuration, shelves, tags, status, rating, metadataOverrides',
+      // not synced, one record per book
+      outbox: 'bookId',
+    })
+
+    this.version(11).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, progressUpdatedAt, definitions, annotations, deletedAnnotations, configuration, shelves, tags, status, rating, metadataOverrides',
+    })
+
+    this.version(10).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration, shelves, tags, status, rating, metadataOverrides',
+      // not synced, so that other devices keep their files
+      offloads: 'id',
+    })
+
+    this.version(9).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration, shelves, tags, status, rating, metadataOverrides',
+    })
+
+    this.version(8).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration, shelves, tags, status, rating',
+      // full-text index, see `indexBooks`
+      texts: 'id',
+    })
+
+    this.version(7).stores({
+      books:
+        'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration, shelves, tags, status, rating',
+    })
+
+    this.version(6)
+      .stores({
+        books:
+          'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration',
+      })
+      .upgrade(rekeyFiles)
+
     this.version(5).stores({
       books:
         'id, name, size, metadata, createdAt, updatedAt, cfi, percentage, definitions, annotations, configuration',
@@ -115,4 +225,90 @@ export class DB extends Dexie {
   }
 }
 
+export function rekeyBook(book: BookRecord, id: string): BookRecord {
+  return {
+    ...book,
+    id,
+    annotations: book.annotations.map((a) => ({ ...a, bookId: id })),
+  }
+}
+
+// merge a duplicate `source` into `target`, keeping the latest progress
+export function mergeBook(target: BookRecord, source: BookRecord): BookRecord {
+  source = rekeyBook(source, target.id)
+  const latest =
+    (source.updatedAt ?? 0) > (target.updatedAt ?? 0) ? source : target
+  const deletedAnnotations = mergeTombstones(
+    target.deletedAnnotations,
+    source.deletedAnnotations,
+  )
+  const deletedBookmarks = mergeTombstones(
+    target.deletedBookmarks,
+    source.deletedBookmarks,
+  )
+
+  return {
+    ...target,
+    cfi: latest.cfi,
+    percentage: latest.percentage,
+    updatedAt: latest.updatedAt,
+    createdAt: Math.min(target.createdAt, source.createdAt),
+    definitions: [...new Set([...target.definitions, ...source.definitions])],
+    annotations: mergeItems(
+      target.annotations,
+      source.annotations,
+      deletedAnnotations,
+    ),
+    deletedAnnotations,
+    bookmarks: mergeItems(target.bookmarks, source.bookmarks, deletedBookmarks),
+    deletedBookmarks,
+  }
+}
+
+// rekey uuid ids to content hashes, merging books with the same content
+async function rekeyFiles(t: Transaction) {
+  const files: FileRecord[] = await t.table('files').toArray()
+
+  for (const { id, file } of files) {
+    // one at a time, all files of the library may not fit in memory
+    const newId = await Dexie.waitFor(hashFile(file))
+    if (id === newId) continue
+
+    const book: BookRecord | undefined = await t.table('books').get(id)
+    const target: BookRecord | undefined = await t.table('books').get(newId)
+    const cover: CoverRecord | undefined = await t.table('covers').get(id)
+
+    if (book) {
+      await t
+        .table('books')
+        .put(target ? mergeBook(target, book) : rekeyBook(book, newId))
+      await t.table('books').delete(id)
+    }
+
+    await t.table('files').delete(id)
+    await t.table('covers').delete(id)
+    // tables added after version 6, the text is indexed again
+    if (t.storeNames.includes('texts')) await t.table('texts').delete(id)
+    if (t.storeNames.includes('outbox')) {
+      const record: OutboxRecord | undefined = await t.table('outbox').get(id)
+      await t.table('outbox').delete(id)
+      if (record) await t.table('outbox').put({ ...record, bookId: newId })
+    }
+    if (t.storeNames.includes('offloads')) {
+      const record: OffloadRecord | undefined = await t
+        .table('offloads')
+        .get(id)
+      await t.table('offloads').delete(id)
+      // the file of `target` is kept
+      if (record && !target) {
+        await t.table('offloads').put({ ...record, id: newId })
+      }
+    }
+    if (!target) {
+      await t.table('files').put({ id: newId, file })
+      if (cover) await t.table('covers').put({ ...cover, id: newId })
+    }
+  }
+}
+
 export const db = IS_SERVER ? null : new DB('re-reader')
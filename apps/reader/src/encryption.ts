@@ -0,0 +1,181 @@
+import { IS_SERVER } from '@literal-ui/hooks'
+
+import { db } from './db'
+
+// Optional passphrase-based encryption of `data.json` and backups. The
+// payload is encrypted with AES-GCM using a key derived by PBKDF2, and
+// wrapped in an `EncryptedPayload` which is serialized as JSON.
+//
+// The passphrase itself is not stored. It is imported as a non-extractable
+// PBKDF2 key kept in `db.keys`, from which the keys for the salts of
+// payloads are derived.
+
+const ALGORITHM = 'AES-GCM'
+const KDF = 'PBKDF2'
+const ITERATIONS = 310000
+const KEY_ID = 'sync-passphrase'
+// stored in plain text by earlier versions
+const LEGACY_PASSPHRASE_KEY = 'sync-passphrase'
+
+export interface EncryptedPayload {
+  encrypted: typeof ALGORITHM
+  kdf: typeof KDF
+  iterations: number
+  // base64
+  salt: string
+  iv: string
+  data: string
+}
+
+let passphraseKey: Promise<CryptoKey | undefined> | undefined
+// by salt and iterations, as deriving a key takes a while
+const derivedKeys = new Map<string, Promise<CryptoKey>>()
+// of payloads encrypted in this session, so that the key is derived once
+let sessionSalt: Uint8Array | undefined
+
+function importPassphrase(passphrase: string) {
+  return crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    KDF,
+    false,
+    ['deriveKey'],
+  )
+}
+
+async function loadPassphraseKey() {
+  if (IS_SERVER) return
+
+  const legacy = localStorage.getItem(LEGACY_PASSPHRASE_KEY)
+  if (legacy) {
+    const key = await importPassphrase(legacy)
+    await db?.keys.put({ id: KEY_ID, key })
+    localStorage.removeItem(LEGACY_PASSPHRASE_KEY)
+    return key
+  }
+  return (await db?.keys.get(KEY_ID))?.key
+}
+
+function getPassphraseKey() {
+  passphraseKey ??= loadPassphraseKey()
+  return passphraseKey
+}
+
+export async function hasPassphrase() {
+  return !!(await getPassphraseKey())
+}
+
+// remove the passphrase if `undefined`, so that data is written in plain JSON
+export async function setPassphrase(passphrase?: string) {
+  const key = passphrase ? await importPassphrase(passphrase) : undefined
+  if (key) {
+    await db?.keys.put({ id: KEY_ID, key })
+  } else {
+    await db?.keys.delete(KEY_ID)
+  }
+  passphraseKey = Promise.resolve(key)
+  derivedKeys.clear()
+  sessionSalt = undefined
+}
+
+function toBase64(bytes: Uint8Array) {
+  let binary = ''
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary)
+}
+
+function fromBase64(base64: string) {
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))
+}
+
+function deriveKey(
+  passphrase: CryptoKey,
+  salt: Uint8Array,
+  iterations: number,
+) {
+  const id = `${toBase64(salt)}:${iterations}`
+  let key = derivedKeys.get(id)
+  if (!key) {
+    key = crypto.subtle.deriveKey(
+      { name: KDF, salt, iterations, hash: 'SHA-256' },
+      passphrase,
+      { name: ALGORITHM, length: 256 },
+      false,
+      ['encrypt', 'decrypt'],
+    )
+    key.catch(() => derivedKeys.delete(id))
+    derivedKeys.set(id, key)
+  }
+  return key
+}
+
+export function isEncrypted(data: unknown): data is EncryptedPayload {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as EncryptedPayload).encrypted === ALGORITHM
+  )
+}
+
+export async function encrypt(
+  text: string,
+  passphrase: CryptoKey,
+): Promise<EncryptedPayload> {
+  sessionSalt ??= crypto.getRandomValues(new Uint8Array(16))
+  const salt = sessionSalt
+  // never reused with the same key
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const key = await deriveKey(passphrase, salt, ITERATIONS)
+  const data = await crypto.subtle.encrypt(
+    { name: ALGORITHM, iv },
+    key,
+    new TextEncoder().encode(text),
+  )
+
+  return {
+    encrypted: ALGORITHM,
+    kdf: KDF,
+    iterations: ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+  }
+}
+
+export async function decrypt(
+  payload: EncryptedPayload,
+  passphrase?: CryptoKey,
+) {
+  if (!passphrase) {
+    throw new Error('The data is encrypted, please set the passphrase')
+  }
+
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(payload.salt),
+    payload.iterations,
+  )
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: ALGORITHM, iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data),
+    )
+    return new TextDecoder().decode(data)
+  } catch {
+    // authentication fails for a wrong passphrase or tampered data
+    throw new Error('Wrong passphrase, the data can not be decrypted')
+  }
+}
+
+// encrypt with the passphrase if any, otherwise leave `text` as is
+export async function seal(text: string) {
+  const passphrase = await getPassphraseKey()
+  return passphrase ? JSON.stringify(await encrypt(text, passphrase)) : text
+}
+
+// reverse `seal`, data in plain JSON is left as is
+export async function unseal(text: string) {
+  const data = JSON.parse(text)
+  return isEncrypted(data) ? decrypt(data, await getPassphraseKey()) : text
+}
@@ -0,0 +1,186 @@
+import JSZip from 'jszip'
+
+// Build EPUB packages in memory, so that other formats can be rendered
+// by `BookTab.render` just like real EPUBs.
+
+export interface EpubChapter {
+  title: string
+  // inner html of `<body>`, must be well-formed XHTML
+  html: string
+  // extra elements of `<head>`, e.g. viewport of fixed layout pages
+  head?: string
+}
+
+export interface EpubResource {
+  // relative to the package document, e.g. `images/cover.jpg`
+  href: string
+  mediaType: string
+  data: Blob | ArrayBuffer | Uint8Array | string
+}
+
+export interface EpubOptions {
+  title: string
+  creators?: string[]
+  language?: string
+  description?: string
+  publisher?: string
+  identifier?: string
+  chapters: EpubChapter[]
+  // entries of the table of contents, defaults to one per chapter
+  toc?: { title: string; index: number }[]
+  resources?: EpubResource[]
+  // href of a resource in `resources`
+  cover?: string
+  css?: string
+  // pre-paginated, e.g. comics
+  fixedLayout?: boolean
+  rtl?: boolean
+}
+
+export function escapeXml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export const chapterHref = (i: number) => `chapter-${i + 1}.xhtml`
+
+function xhtml(title: string, body: string, head = '') {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="style.css"/>
+${head}
+</head>
+<body>
+${body}
+</body>
+</html>`
+}
+
+function opf(o: EpubOptions, identifier: string) {
+  const resources = o.resources ?? []
+  const metadata = [
+    `<dc:identifier id="uid">${escapeXml(identifier)}</dc:identifier>`,
+    `<dc:title>${escapeXml(o.title)}</dc:title>`,
+    `<dc:language>${escapeXml(o.language || 'en')}</dc:language>`,
+    ...(o.creators ?? []).map(
+      (c) => `<dc:creator>${escapeXml(c)}</dc:creator>`,
+    ),
+    o.description &&
+      `<dc:description>${escapeXml(o.description)}</dc:description>`,
+    o.publisher && `<dc:publisher>${escapeXml(o.publisher)}</dc:publisher>`,
+    `<meta property="dcterms:modified">${
+      new Date().toISOString().split('.')[0]
+    }Z</meta>`,
+    o.cover && '<meta name="cover" content="cover-image"/>',
+    o.fixedLayout &&
+      '<meta property="rendition:layout">pre-paginated</meta><meta property="rendition:spread">auto</meta>',
+  ].filter(Boolean)
+
+  const manifest = [
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '<item id="css" href="style.css" media-type="text/css"/>',
+    ...o.chapters.map(
+      (_, i) =>
+        `<item id="c${i + 1}" href="${chapterHref(
+          i,
+        )}" media-type="application/xhtml+xml"/>`,
+    ),
+    ...resources.map((r, i) =>
+      r.href === o.cover
+        ? `<item id="cover-image" href="${escapeXml(r.href)}" media-type="${
+            r.mediaType
+          }" properties="cover-image"/>`
+        : `<item id="r${i + 1}" href="${escapeXml(r.href)}" media-type="${
+            r.mediaType
+          }"/>`,
+    ),
+  ]
+
+  const spine = o.chapters.map((_, i) => `<itemref idref="c${i + 1}"/>`)
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="uid" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+${metadata.join('\n')}
+</metadata>
+<manifest>
+${manifest.join('\n')}
+</manifest>
+<spine toc="ncx"${o.rtl ? ' page-progression-direction="rtl"' : ''}>
+${spine.join('\n')}
+</spine>
+</package>`
+}
+
+function tocEntries(o: EpubOptions) {
+  return o.toc ?? o.chapters.map((c, index) => ({ title: c.title, index }))
+}
+
+function nav(o: EpubOptions) {
+  const items = tocEntries(o).map(
+    (e) =>
+      `<li><a href="${chapterHref(e.index)}">${escapeXml(e.title)}</a></li>`,
+  )
+  return xhtml(
+    o.title,
+    `<nav epub:type="toc" id="toc"><ol>\n${items.join('\n')}\n</ol></nav>`,
+  )
+}
+
+function ncx(o: EpubOptions, identifier: string) {
+  const points = tocEntries(o).map(
+    (e, i) => `<navPoint id="p${i + 1}" playOrder="${i + 1}">
+<navLabel><text>${escapeXml(e.title)}</text></navLabel>
+<content src="${chapterHref(e.index)}"/>
+</navPoint>`,
+  )
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">
+<head><meta name="dtb:uid" content="${escapeXml(identifier)}"/></head>
+<docTitle><text>${escapeXml(o.title)}</text></docTitle>
+<navMap>
+${points.join('\n')}
+</navMap>
+</ncx>`
+}
+
+export async function buildEpub(o: EpubOptions) {
+  const identifier = o.identifier || o.title
+  const zip = new JSZip()
+
+  // `mimetype` must be the first entry and stored without compression
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' })
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles>
+<rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+</rootfiles>
+</container>`,
+  )
+
+  const folder = zip.folder('OEBPS')!
+  folder.file('content.opf', opf(o, identifier))
+  folder.file('nav.xhtml', nav(o))
+  folder.file('toc.ncx', ncx(o, identifier))
+  folder.file('style.css', o.css ?? '')
+  o.chapters.forEach((c, i) => {
+    folder.file(chapterHref(i), xhtml(c.title, c.html, c.head))
+  })
+  o.resources?.forEach((r) => folder.file(r.href, r.data))
+
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/epub+zip',
+  })
+}
@@ -0,0 +1,265 @@
+import JSZip from 'jszip'
+
+import {
+  buildEpub,
+  chapterHref,
+  EpubChapter,
+  EpubResource,
+  escapeXml,
+} from './epub'
+
+// Convert FictionBook (`.fb2` and `.fb2.zip`) files to EPUB
+// http://www.fictionbook.org/index.php/Eng:XML_Schema_Fictionbook_2.1
+
+const XLINK = 'http://www.w3.org/1999/xlink'
+
+const css = `p { text-indent: 2em; margin: 0.3em 0; }
+h1, h2, h3, h4, h5, h6 { text-align: center; }
+.epigraph { margin-left: 30%; font-style: italic; }
+.poem { margin: 1em 2em; }
+.poem p, .text-author { text-indent: 0; }
+.text-author { text-align: right; font-style: italic; }
+img { max-width: 100%; }`
+
+const inlineTags: Record<string, string> = {
+  strong: 'strong',
+  emphasis: 'em',
+  strikethrough: 'del',
+  sub: 'sub',
+  sup: 'sup',
+  code: 'code',
+}
+
+function children(el: Element | undefined | null, name: string) {
+  return [...(el?.children ?? [])].filter((c) => c.localName === name)
+}
+
+function child(el: Element | undefined | null, name: string) {
+  return children(el, name)[0]
+}
+
+function text(el?: Element | null) {
+  return el?.textContent?.replace(/\s+/g, ' ').trim() ?? ''
+}
+
+function href(el: Element) {
+  return (
+    el.getAttributeNS(XLINK, 'href') ??
+    el.getAttribute('l:href') ??
+    el.getAttribute('xlink:href') ??
+    el.getAttribute('href') ??
+    ''
+  )
+}
+
+async function decodeXml(data: ArrayBuffer) {
+  // the encoding is declared in the XML prolog, e.g. `windows-1251`
+  const prolog = new TextDecoder('ascii').decode(data.slice(0, 200))
+  const encoding = /encoding=["']([\w-]+)["']/i.exec(prolog)?.[1] ?? 'utf-8'
+  try {
+    return new TextDecoder(encoding).decode(data)
+  } catch {
+    return new TextDecoder().decode(data)
+  }
+}
+
+async function readFb2(file: File) {
+  if (!/\.zip$/i.test(file.name)) return file.arrayBuffer()
+
+  const zip = await JSZip.loadAsync(file)
+  const entry = zip.file(/\.fb2$/i)[0]
+  if (!entry) throw new Error(`No .fb2 file in ${file.name}`)
+  return entry.async('arraybuffer')
+}
+
+function authorName(el: Element) {
+  const nickname = text(child(el, 'nickname'))
+  const name = ['first-name', 'middle-name', 'last-name']
+    .map((n) => text(child(el, n)))
+    .filter(Boolean)
+    .join(' ')
+  return name || nickname
+}
+
+function base64ToBytes(base64: string) {
+  const binary = atob(base64.replace(/\s/g, ''))
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return bytes
+}
+
+class Converter {
+  // element id -> index of the chapter containing it
+  private chapterOfId = new Map<string, number>()
+
+  constructor(private images: Map<string, string>) {}
+
+  collectIds(el: Element, chapter: number) {
+    const id = el.getAttribute('id')
+    if (id) this.chapterOfId.set(id, chapter)
+    for (const c of el.children) this.collectIds(c, chapter)
+  }
+
+  private attrs(el: Element) {
+    const id = el.getAttribute('id')
+    return id ? ` id="${escapeXml(id)}"` : ''
+  }
+
+  private link(target: string) {
+    if (!target.startsWith('#')) return target
+    const chapter = this.chapterOfId.get(target.slice(1))
+    return chapter === undefined ? target : chapterHref(chapter) + target
+  }
+
+  private inner(el: Element, depth: number) {
+    return [...el.childNodes].map((n) => this.convert(n, depth)).join('')
+  }
+
+  convert(node: Node, depth: number): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return escapeXml(node.textContent ?? '')
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+    const el = node as Element
+    const name = el.localName
+    const attrs = this.attrs(el)
+    const tag = inlineTags[name]
+
+    if (tag) return `<${tag}>${this.inner(el, depth)}</${tag}>`
+
+    switch (name) {
+      case 'p':
+      case 'v':
+        return `<p${attrs}>${this.inner(el, depth)}</p>\n`
+      case 'empty-line':
+        return '<p>&#160;</p>\n'
+      case 'title': {
+        const level = Math.min(depth, 6)
+        const lines = children(el, 'p').map((p) => this.inner(p, depth))
+        return `<h${level}${attrs}>${lines.join('<br/>')}</h${level}>\n`
+      }
+      case 'subtitle':
+        return `<h${Math.min(depth + 1, 6)}${attrs}>${this.inner(
+          el,
+          depth,
+        )}</h${Math.min(depth + 1, 6)}>\n`
+      case 'section':
+        return `<section${attrs}>\n${this.inner(el, depth + 1)}</section>\n`
+      case 'epigraph':
+        return `<blockquote class="epigraph"${attrs}>${this.inner(
+          el,
+          depth,
+        )}</blockquote>\n`
+      case 'cite':
+        return `<blockquote${attrs}>${this.inner(el, depth)}</blockquote>\n`
+      case 'poem':
+      case 'stanza':
+        return `<div class="${name}"${attrs}>${this.inner(el, depth)}</div>\n`
+      case 'text-author':
+        return `<p class="text-author">${this.inner(el, depth)}</p>\n`
+      case 'image': {
+        const src = this.images.get(href(el).replace(/^#/, ''))
+        return src ? `<img src="${escapeXml(src)}" alt=""/>\n` : ''
+      }
+      case 'a':
+        return `<a href="${escapeXml(this.link(href(el)))}">${this.inner(
+          el,
+          depth,
+        )}</a>`
+      case 'table':
+      case 'tr':
+      case 'td':
+      case 'th':
+        return `<${name}>${this.inner(el, depth)}</${name}>`
+      default:
+        return this.inner(el, depth)
+    }
+  }
+}
+
+export async function fb2ToEpub(file: File) {
+  const xml = await decodeXml(await readFb2(file))
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const root = doc.documentElement
+  if (root.localName !== 'FictionBook') {
+    throw new Error(`Invalid FictionBook file: ${file.name}`)
+  }
+
+  const description = child(root, 'description')
+  const titleInfo = child(description, 'title-info')
+  const publishInfo = child(description, 'publish-info')
+  const title =
+    text(child(titleInfo, 'book-title')) || file.name.replace(/\..*$/, '')
+
+  const resources: EpubResource[] = []
+  const images = new Map<string, string>()
+  children(root, 'binary').forEach((b, i) => {
+    const id = b.getAttribute('id')
+    const mediaType = b.getAttribute('content-type') ?? 'image/jpeg'
+    if (!id) return
+    const href = `images/${i}-${id.replace(/[^\w.-]/g, '_')}`
+    images.set(id, href)
+    resources.push({ href, mediaType, data: base64ToBytes(b.textContent!) })
+  })
+
+  const coverImage = child(child(titleInfo, 'coverpage'), 'image')
+  const cover = coverImage && images.get(href(coverImage).replace(/^#/, ''))
+
+  const converter = new Converter(images)
+  const bodies = children(root, 'body')
+  const [main, ...others] = bodies
+
+  // split the main body by its top-level sections
+  let container = main
+  let sections = children(main, 'section')
+  if (sections.length === 1 && children(sections[0], 'section').length > 1) {
+    // a single section wrapping the whole book
+    container = sections[0]
+    sections = children(container, 'section')
+  }
+
+  const parts: { title: string; elements: Element[]; depth: number }[] = []
+  const heading = [
+    ...(main?.children ?? []),
+    ...(container === main ? [] : container!.children),
+  ].filter((c) => c.localName !== 'section')
+  if (heading.length) parts.push({ title, elements: heading, depth: 1 })
+  sections.forEach((s, i) =>
+    parts.push({
+      title: text(child(s, 'title')) || `${title} (${i + 1})`,
+      elements: [...s.children],
+      depth: 2,
+    }),
+  )
+  // e.g. `<body name="notes">`
+  others.forEach((b) =>
+    parts.push({
+      title: text(child(b, 'title')) || b.getAttribute('name') || title,
+      elements: [...b.children],
+      depth: 2,
+    }),
+  )
+
+  parts.forEach((p, i) =>
+    p.elements.forEach((el) => converter.collectIds(el, i)),
+  )
+
+  const chapters: EpubChapter[] = parts.map((p) => ({
+    title: p.title,
+    html: p.elements.map((el) => converter.convert(el, p.depth)).join(''),
+  }))
+
+  return buildEpub({
+    title,
+    creators: children(titleInfo, 'author').map(authorName).filter(Boolean),
+    language: text(child(titleInfo, 'lang')) || undefined,
+    description: text(child(titleInfo, 'annotation')) || undefined,
+    publisher: text(child(publishInfo, 'publisher')) || undefined,
+    identifier: text(child(child(description, 'document-info'), 'id')),
+    chapters: chapters.length ? chapters : [{ title, html: '' }],
+    resources,
+    cover,
+    css,
+  })
+}
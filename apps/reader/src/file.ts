@@ -1,10 +1,13 @@
-import { v4 as uuidv4 } from 'uuid'
-
 import ePub, { Book } from '@flow/epubjs'
 
+import { cbzToEpub } from './cbz'
 import { BookRecord, db } from './db'
-import { mapExtToMimes } from './mime'
+import { fb2ToEpub } from './fb2'
+import { translate } from './hooks/useTranslation'
+import { convertibleExts, matchExt } from './mime'
+import { sha256 } from './sha256'
 import { unpack } from './sync'
+import { textToEpub } from './text'
 
 const epubCache = new Map<string, Book>()
 
@@ -14,7 +17,7 @@ export async function fileToEpub(file: File, cacheKey?: string) {
     if (cached) return cached
   }
 
-  const data = await file.arrayBuffer()
+  const data = await (await toEpubFile(file)).arrayBuffer()
   const book = ePub(data)
 
   if (cacheKey) {
@@ -24,37 +27,78 @@ export async function fileToEpub(file: File, cacheKey?: string) {
   return book
 }
 
+// the original file is kept in `db.files`, and converted on every load
+async function toEpubFile(file: File): Promise<Blob> {
+  if (matchExt(file, '.txt') || matchExt(file, '.md')) return textToEpub(file)
+  if (matchExt(file, '.fb2') || matchExt(file, '.fb2.zip'))
+    return fb2ToEpub(file)
+  if (matchExt(file, '.cbz')) return cbzToEpub(file)
+  return file
+}
+
 export async function handleFiles(files: Iterable<File>) {
   const books = await db?.books.toArray()
-  const newBooks = []
+  const newBooks: BookRecord[] = []
+  const duplicates: string[] = []
 
   for (const file of files) {
     console.log(file)
 
-    if (mapExtToMimes['.zip'].includes(file.type)) {
-      unpack(file)
+    const convertible = convertibleExts.some((ext) => matchExt(file, ext))
+
+    // `.fb2.zip` is a book rather than a backup
+    if (!convertible && matchExt(file, '.zip')) {
+      unpack(file).catch((error) => {
+        console.error(error)
+        window.alert(error.message)
+      })
       continue
     }
 
-    if (!mapExtToMimes['.epub'].includes(file.type)) {
+    if (!convertible && !matchExt(file, '.epub')) {
       console.error(`Unsupported file type: ${file.type}`)
       continue
     }
 
-    let book = books?.find((b) => b.name === file.name)
-
-    if (!book) {
-      book = await addBook(file)
+    const id = await hashFile(file)
+    let book = books?.find((b) => b.id === id)
+
+    if (book) {
+      duplicates.push(
+        translate('home.duplicate')
+          .replace('{file}', file.name)
+          .replace('{name}', book.name),
+      )
+    } else {
+      book = await addBook(file, id)
+      books?.push(book)
     }
 
-    newBooks.push(book)
+    if (!newBooks.includes(book)) newBooks.push(book)
   }
 
+  if (duplicates.length) window.alert(duplicates.join('\n'))
+
   return newBooks
 }
 
-export async function addBook(file: File) {
-  const id = uuidv4()
+// the same content always gets the same id, no matter how the file is named
+export async function hashFile(file: Blob) {
+  const data = await file.arrayBuffer()
+  // `crypto.subtle` is only available in secure contexts
+  const digest =
+    typeof crypto !== 'undefined' && crypto.subtle
+      ? new Uint8Array(await crypto.subtle.digest('SHA-256', data))
+      : sha256(new Uint8Array(data))
+  return [...digest].map((b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+export async function addBook(file: File, id?: string) {
+  id ??= await hashFile(file)
+
+  const existing = await db?.books.get(id)
+  if (existing) return existing
+
   const epub = await fileToEpub(file, id)
   const metadata = await epub.loaded.metadata
 
@@ -100,11 +144,25 @@ async function toDataUrl(url: string) {
   return readBlob((r) => r.readAsDataURL(buffer))
 }
 
-export async function fetchBook(url: string) {
-  const filename = decodeURIComponent(/\/([^/]*\.epub)$/i.exec(url)?.[1] ?? '')
+interface FetchBookOptions {
+  // for URLs without a file name, e.g. acquisition links of OPDS
+  filename?: string
+  fetch?: (url: string) => Promise<Response>
+}
+
+export async function fetchBook(
+  url: string,
+  { fetch = (url) => window.fetch(url), ...options }: FetchBookOptions = {},
+) {
+  const filename =
+    options.filename ??
+    decodeURIComponent(
+      /\/([^/]*\.(epub|txt|md|fb2|fb2\.zip|cbz))$/i.exec(url)?.[1] ?? '',
+    )
   const books = await db?.books.toArray()
   const book = books?.find((b) => b.name === filename)
 
+  // `addBook` dedupes by content, so a renamed copy is not added twice
   return (
     book ??
     fetch(url)
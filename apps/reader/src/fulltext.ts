@@ -0,0 +1,240 @@
+import type { Book } from '@flow/epubjs'
+import { NavItem } from '@flow/epubjs/types/navigation'
+import Section from '@flow/epubjs/types/section'
+
+import { BookRecord, db } from './db'
+import { fileToEpub } from './file'
+import { compareHref } from './models'
+
+// Library-wide full-text search. The text of every section is extracted
+// once per book in the background and stored in `db.texts`, so searching
+// doesn't need to load any EPUB.
+
+// bump to rebuild the index after changing how text is extracted
+export const TEXT_INDEX_VERSION = 1
+
+export interface SectionText {
+  href: string
+  title: string
+  // concatenation of all text nodes in `<body>`, see `textNodes`
+  text: string
+}
+
+export interface TextRecord {
+  // book id
+  id: string
+  version: number
+  sections: SectionText[]
+}
+
+export interface TextMatch {
+  // offset in `SectionText.text`
+  offset: number
+  excerpt: string
+}
+
+export interface SectionHit {
+  index: number
+  title: string
+  matches: TextMatch[]
+}
+
+export interface BookHit {
+  bookId: string
+  sections: SectionHit[]
+}
+
+const EXCERPT_LENGTH = 40
+const MAX_MATCHES_PER_BOOK = 50
+
+export function textNodes(doc: Document) {
+  const nodes: Text[] = []
+  const body = doc.body ?? doc.documentElement
+  const walker = doc.createTreeWalker(body, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text)
+  return nodes
+}
+
+export function flattenToc(items: NavItem[]): NavItem[] {
+  return items.flatMap((i) => [i, ...flattenToc(i.subitems ?? [])])
+}
+
+export function idle() {
+  return new Promise<void>((resolve) =>
+    typeof requestIdleCallback !== 'undefined'
+      ? requestIdleCallback(() => resolve())
+      : setTimeout(resolve, 0),
+  )
+}
+
+export async function loadEpub(bookId: string) {
+  const file = await db?.files.get(bookId)
+  // not cached like opened books, the index may cover a whole library
+  return file && fileToEpub(file.file)
+}
+
+export async function loadSections(epub: Book) {
+  await epub.ready
+  return (epub.spine as any).spineItems as Section[]
+}
+
+// returns whether the book was indexed, i.e. its file was found
+export async function indexBook(book: BookRecord) {
+  const epub = await loadEpub(book.id)
+  if (!epub) return false
+
+  try {
+    const toc = flattenToc((await epub.loaded.navigation).toc)
+    const sections: SectionText[] = []
+
+    for (const section of await loadSections(epub)) {
+      await section.load(epub.load.bind(epub))
+      const doc = section.document
+      sections.push({
+        href: section.href,
+        title:
+          toc.find((i) => compareHref(section.href, i.href))?.label.trim() ??
+          '',
+        text: textNodes(doc)
+          .map((n) => n.data)
+          .join(''),
+      })
+      section.unload()
+      // don't block the UI for books with hundreds of sections
+      await idle()
+    }
+
+    await db?.texts.put({
+      id: book.id,
+      version: TEXT_INDEX_VERSION,
+      sections,
+    })
+    return true
+  } finally {
+    epub.destroy()
+  }
+}
+
+let indexing: Promise<void> | undefined
+const pending = new Map<string, BookRecord>()
+// indexed or failed to, skipped without reading the database, as the
+// library changes on every progress update
+const done = new Set<string>()
+
+function indexedIds() {
+  // only the keys are read, not the texts
+  return db?.texts.where('version').equals(TEXT_INDEX_VERSION).primaryKeys()
+}
+
+// index books one after another, books already indexed are skipped
+export async function indexBooks(books: BookRecord[]) {
+  const rest = books.filter((b) => !done.has(b.id) && !pending.has(b.id))
+  if (!rest.length) return indexing
+  ;(await indexedIds())?.forEach((id) => done.add(id as string))
+  rest.forEach((b) => done.has(b.id) || pending.set(b.id, b))
+
+  indexing ??= (async () => {
+    while (pending.size) {
+      const [id, book] = pending.entries().next().value as [string, BookRecord]
+      pending.delete(id)
+
+      try {
+        // retried on the next call if the file is not downloaded yet
+        if (await indexBook(book)) done.add(id)
+      } catch (error) {
+        console.error(`Failed to index ${book.name}`, error)
+        done.add(id)
+      }
+    }
+    indexing = undefined
+  })()
+
+  return indexing
+}
+
+export async function removeTexts(ids: string[]) {
+  ids.forEach((id) => done.delete(id))
+  await db?.texts.bulkDelete(ids)
+}
+
+export async function countIndexedBooks() {
+  return (
+    (await db?.texts.where('version').equals(TEXT_INDEX_VERSION).count()) ?? 0
+  )
+}
+
+function excerpt(text: string, offset: number, length: number) {
+  const start = Math.max(0, offset - EXCERPT_LENGTH)
+  const end = Math.min(text.length, offset + length + EXCERPT_LENGTH)
+  return [
+    start > 0 ? '…' : '',
+    text.slice(start, end).replace(/\s+/g, ' '),
+    end < text.length ? '…' : '',
+  ].join('')
+}
+
+export async function searchLibrary(keyword: string) {
+  const hits: BookHit[] = []
+  const needle = keyword.toLowerCase()
+  if (!needle) return hits
+
+  await db?.texts.each(({ id, sections }) => {
+    const hit: BookHit = { bookId: id, sections: [] }
+    let count = 0
+
+    sections.forEach(({ title, text }, index) => {
+      const haystack = text.toLowerCase()
+      const matches: TextMatch[] = []
+
+      let offset = haystack.indexOf(needle)
+      while (offset > -1 && count < MAX_MATCHES_PER_BOOK) {
+        matches.push({ offset, excerpt: excerpt(text, offset, needle.length) })
+        count++
+        offset = haystack.indexOf(needle, offset + needle.length)
+      }
+
+      if (matches.length) hit.sections.push({ index, title, matches })
+    })
+
+    if (hit.sections.length) hits.push(hit)
+  })
+
+  return hits
+}
+
+// map a match back to a CFI, by loading only the section containing it
+export async function matchToCfi(
+  bookId: string,
+  sectionIndex: number,
+  offset: number,
+  length: number,
+) {
+  const epub = await loadEpub(bookId)
+  if (!epub) return
+
+  try {
+    const section = (await loadSections(epub))[sectionIndex]
+    if (!section) return
+
+    await section.load(epub.load.bind(epub))
+    const doc = section.document
+    const range = doc.createRange()
+    let start = 0
+    let started = false
+
+    for (const node of textNodes(doc)) {
+      const end = start + node.length
+      if (!started && offset < end) {
+        range.setStart(node, offset - start)
+        started = true
+      }
+      if (started && offset + length <= end) {
+        range.setEnd(node, offset + length - start)
+        return section.cfiFromRange(range)
+      }
+      start = end
+    }
+  } finally {
+    epub.destroy()
+  }
+}
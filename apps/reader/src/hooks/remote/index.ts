@@ -1,2 +1,3 @@
+export * from './useOutbox'
 export * from './useRemote'
 export * from './useSync'
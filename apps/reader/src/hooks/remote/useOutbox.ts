@@ -0,0 +1,18 @@
+import { useEffect } from 'react'
+import { useSnapshot } from 'valtio'
+
+import { BookRecord } from '@flow/reader/db'
+import { syncStatus, watchOutbox } from '@flow/reader/outbox'
+
+import { useRemoteBooks } from './useRemote'
+
+export function useOutbox() {
+  const { mutate } = useRemoteBooks()
+  const { books } = useSnapshot(syncStatus)
+
+  useEffect(() => watchOutbox(), [])
+
+  useEffect(() => {
+    if (books) mutate(books as BookRecord[], { revalidate: false })
+  }, [books, mutate])
+}
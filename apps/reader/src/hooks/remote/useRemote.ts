@@ -1,17 +1,40 @@
 import useSWR from 'swr/immutable'
+import { useSnapshot } from 'valtio'
 
+import { isProviderReady, syncProviderName } from '@flow/reader/providers'
+import { localFolder } from '@flow/reader/providers/local'
+import { useSettings } from '@flow/reader/state'
 import {
   DATA_FILENAME,
-  dropboxBooksFetcher,
-  dropboxFilesFetcher,
+  remoteBooksFetcher,
+  remoteFilesFetcher,
 } from '@flow/reader/sync'
 
+// refetch when another provider or local folder is chosen
+function useProviderKey() {
+  const [settings] = useSettings()
+  const { handle } = useSnapshot(localFolder)
+  const provider = syncProviderName(settings)
+  return provider === 'local' ? `${provider}:${handle?.name}` : provider
+}
+
+export function useProviderReady() {
+  const [settings] = useSettings()
+  // rerender when a local folder is chosen
+  useSnapshot(localFolder)
+  return isProviderReady(settings)
+}
+
 export function useRemoteFiles() {
-  return useSWR('/files', dropboxFilesFetcher, { shouldRetryOnError: false })
+  const provider = useProviderKey()
+  return useSWR(['/files', provider], remoteFilesFetcher, {
+    shouldRetryOnError: false,
+  })
 }
 
 export function useRemoteBooks() {
-  return useSWR(`/${DATA_FILENAME}`, dropboxBooksFetcher, {
+  const provider = useProviderKey()
+  return useSWR([`/${DATA_FILENAME}`, provider], remoteBooksFetcher, {
     shouldRetryOnError: false,
   })
 }
@@ -2,49 +2,38 @@ import { useCallback, useEffect } from 'react'
 import { useSnapshot } from 'valtio'
 
 import { Annotation } from '@flow/reader/annotation'
-import { BookRecord } from '@flow/reader/db'
+import { Bookmark } from '@flow/reader/bookmark'
+import { BookRecord, db } from '@flow/reader/db'
 import { BookTab } from '@flow/reader/models'
-import { uploadData } from '@flow/reader/sync'
-
-import { useRemoteBooks } from './useRemote'
+import { queueChanges, syncStatus } from '@flow/reader/outbox'
 
 export function useSync(tab: BookTab) {
-  const { mutate } = useRemoteBooks()
   const { location, book } = useSnapshot(tab)
+  const { books } = useSnapshot(syncStatus)
 
   const id = tab.book.id
 
   const sync = useCallback(
-    async (changes: Partial<BookRecord>) => {
-      // to remove effect dependency `remoteBooks`
-      mutate(
-        (remoteBooks) => {
-          if (remoteBooks) {
-            const i = remoteBooks.findIndex((b) => b.id === id)
-            if (i < 0) return remoteBooks
-
-            remoteBooks[i] = {
-              ...remoteBooks[i]!,
-              ...changes,
-            }
-
-            uploadData(remoteBooks)
-
-            return [...remoteBooks]
-          }
-        },
-        { revalidate: false },
-      )
-    },
-    [id, mutate],
+    (changes: Partial<BookRecord>) => queueChanges(id, changes),
+    [id],
   )
 
+  useEffect(() => {
+    const book = books?.find((b) => b.id === id)
+    if (!book) return
+    // newer changes would be overwritten before being uploaded
+    db?.outbox.get(id).then((record) => {
+      if (!record) tab.applyRemoteChanges(book as BookRecord)
+    })
+  }, [books, id, tab])
+
   useEffect(() => {
     sync({
       cfi: location?.start.cfi,
       percentage: book.percentage,
+      progressUpdatedAt: book.progressUpdatedAt,
     })
-  }, [sync, book.percentage, location?.start.cfi])
+  }, [sync, book.percentage, book.progressUpdatedAt, location?.start.cfi])
 
   useEffect(() => {
     sync({
@@ -55,8 +44,16 @@ export function useSync(tab: BookTab) {
   useEffect(() => {
     sync({
       annotations: book.annotations as Annotation[],
+      deletedAnnotations: book.deletedAnnotations,
+    })
+  }, [book.annotations, book.deletedAnnotations, sync])
+
+  useEffect(() => {
+    sync({
+      bookmarks: book.bookmarks as Bookmark[] | undefined,
+      deletedBookmarks: book.deletedBookmarks,
     })
-  }, [book.annotations, sync])
+  }, [book.bookmarks, book.deletedBookmarks, sync])
 
   useEffect(() => {
     sync({
@@ -0,0 +1,27 @@
+import { useCallback } from 'react'
+
+import {
+  AnnotationColor,
+  AnnotationColorOption,
+  defaultAnnotationColors,
+  findAnnotationColor,
+} from '../annotation'
+import { useSettings } from '../state'
+
+export function useAnnotationColors() {
+  const [settings, setSettings] = useSettings()
+  const colors = settings.annotationColors ?? defaultAnnotationColors
+
+  const setColors = useCallback(
+    (annotationColors: AnnotationColorOption[]) =>
+      setSettings((s) => ({ ...s, annotationColors })),
+    [setSettings],
+  )
+
+  const findColor = useCallback(
+    (id: AnnotationColor) => findAnnotationColor(colors, id),
+    [colors],
+  )
+
+  return { colors, setColors, findColor }
+}
@@ -1,16 +1,19 @@
-import { useRouter } from 'next/router'
+import Router, { useRouter } from 'next/router'
 import { useCallback } from 'react'
 
 import locales from '../../locales'
 
+// outside of components, e.g. for alerts
+export function translate(key: string, locale = Router.locale) {
+  // @ts-ignore
+  return locales[locale][key] as string
+}
+
 export function useTranslation(scope?: string) {
   const { locale } = useRouter()
 
   return useCallback(
-    (key: string) => {
-      // @ts-ignore
-      return locales[locale][scope ? `${scope}.${key}` : key] as string
-    },
+    (key: string) => translate(scope ? `${scope}.${key}` : key, locale),
     [locale, scope],
   )
 }
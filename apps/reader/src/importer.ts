@@ -0,0 +1,290 @@
+import { v4 as uuidv4 } from 'uuid'
+
+import { TextAnchor, TextLocator, TextPosition } from './anchor'
+import {
+  Annotation,
+  AnnotationColor,
+  AnnotationType,
+  defaultAnnotationColors,
+} from './annotation'
+import { Bookmark } from './bookmark'
+import { BookRecord, db } from './db'
+import { bookMetadata } from './metadata'
+import { reader } from './models'
+import { queueChanges } from './outbox'
+import { getSettings } from './state'
+
+// Highlights exported by other readers are matched to books of the library
+// by title and author, and anchored by searching their text in the book.
+// They are previewed before written to the books.
+
+export interface ImportedHighlight {
+  title: string
+  author?: string
+  // id in this library, e.g. of annotations exported by us
+  bookId?: string
+  text: string
+  notes?: string
+  createdAt?: number
+  type?: AnnotationType
+  color?: AnnotationColor
+  position?: TextPosition
+}
+
+// bookmarks are imported as they are, without checking their CFIs
+export interface ImportedBookmark {
+  title: string
+  author?: string
+  bookId?: string
+  cfi: string
+  spine: Bookmark['spine']
+  excerpt: string
+  // title of the bookmark
+  name?: string
+  createdAt?: number
+}
+
+export type ImportFailureReason =
+  // no book in the library matches the title
+  | 'no_book'
+  // the file of the book is not in this browser
+  | 'no_file'
+  // the text is not found in the book
+  | 'not_found'
+  // a note without its highlight
+  | 'no_highlight'
+
+export interface ImportFailure {
+  highlight: ImportedHighlight
+  reason: ImportFailureReason
+}
+
+export interface ImportMatch {
+  highlight: ImportedHighlight
+  book: BookRecord
+  anchor: TextAnchor
+}
+
+export interface ImportBookmarkMatch {
+  bookmark: ImportedBookmark
+  book: BookRecord
+}
+
+export interface ImportPreview {
+  matches: ImportMatch[]
+  bookmarks: ImportBookmarkMatch[]
+  // annotated before, e.g. imported twice
+  duplicated: number
+  failures: ImportFailure[]
+}
+
+function normalizeTitle(title: string) {
+  return (
+    title
+      .toLowerCase()
+      .replace(/\.(epub|pdf|mobi|azw3?|fb2|txt|md|cbz)$/, '')
+      // subtitles are often omitted
+      .split(/[:：(（[]/)[0]!
+      .replace(/[\s!-/:-@[-`{-~\u2000-\u206f\u3000-\u303f\uff00-\uff0f]+/g, ' ')
+      .trim()
+  )
+}
+
+// authors like "Last, First" or "First Last"
+function authorWords(author: string) {
+  return author
+    .toLowerCase()
+    .split(/[\s,;&]+/)
+    .filter((w) => w.length > 1)
+}
+
+function matchScore(book: BookRecord, title: string, author?: string) {
+  const { title: bookTitle, creators } = bookMetadata(book)
+  const t = normalizeTitle(title)
+  const candidates = [bookTitle, book.name].map(normalizeTitle)
+  if (!t) return 0
+
+  let score = candidates.includes(t)
+    ? 2
+    : candidates.some((c) => c && (c.includes(t) || t.includes(c)))
+    ? 1
+    : 0
+  if (score && author) {
+    const words = authorWords(creators.join(' '))
+    if (authorWords(author).some((w) => words.includes(w))) score++
+  }
+  return score
+}
+
+export function matchBook(books: BookRecord[], title: string, author?: string) {
+  let best: BookRecord | undefined
+  let bestScore = 0
+  books.forEach((book) => {
+    const score = matchScore(book, title, author)
+    if (score > bestScore) {
+      best = book
+      bestScore = score
+    }
+  })
+  return best
+}
+
+async function matchBookHighlights(
+  book: BookRecord,
+  highlights: ImportedHighlight[],
+  preview: ImportPreview,
+) {
+  const fail = (reason: ImportFailureReason) => (h: ImportedHighlight) =>
+    preview.failures.push({ highlight: h, reason })
+
+  const locator = await TextLocator.open(book.id)
+  if (!locator) return highlights.forEach(fail('no_file'))
+
+  const cfis = new Set(book.annotations.map((a) => a.cfi))
+  try {
+    for (const h of highlights) {
+      const anchor = await locator.locate(h.text, h.position)
+      if (!anchor) {
+        fail('not_found')(h)
+        continue
+      }
+      if (cfis.has(anchor.cfi)) {
+        preview.duplicated++
+        continue
+      }
+      cfis.add(anchor.cfi)
+      preview.matches.push({ highlight: h, book, anchor })
+    }
+  } finally {
+    locator.destroy()
+  }
+}
+
+function findBook(
+  books: BookRecord[],
+  {
+    title,
+    author,
+    bookId,
+  }: { title: string; author?: string; bookId?: string },
+) {
+  return books.find((b) => b.id === bookId) ?? matchBook(books, title, author)
+}
+
+interface PreviewOptions {
+  // import into this book instead of the books matching the titles
+  bookId?: string
+  bookmarks?: ImportedBookmark[]
+  onProgress?: (done: number, total: number) => void
+}
+
+export async function previewHighlights(
+  highlights: ImportedHighlight[],
+  { bookId, bookmarks = [], onProgress }: PreviewOptions = {},
+) {
+  const preview: ImportPreview = {
+    matches: [],
+    bookmarks: [],
+    duplicated: 0,
+    failures: [],
+  }
+  const books = (await db?.books.toArray()) ?? []
+  const target = books.find((b) => b.id === bookId)
+
+  const byBook = new Map<BookRecord, ImportedHighlight[]>()
+  highlights.forEach((h) => {
+    const book = target ?? findBook(books, h)
+    if (!book) return preview.failures.push({ highlight: h, reason: 'no_book' })
+    byBook.set(book, [...(byBook.get(book) ?? []), h])
+  })
+
+  bookmarks.forEach((b) => {
+    const book = target ?? findBook(books, b)
+    if (!book) {
+      const highlight = { title: b.title, author: b.author, text: b.excerpt }
+      return preview.failures.push({ highlight, reason: 'no_book' })
+    }
+    const duplicated =
+      book.bookmarks?.some((m) => m.cfi === b.cfi) ||
+      preview.bookmarks.some((m) => m.book === book && m.bookmark.cfi === b.cfi)
+    if (duplicated) preview.duplicated++
+    else preview.bookmarks.push({ bookmark: b, book })
+  })
+
+  let done = 0
+  for (const [book, highlights] of byBook) {
+    onProgress?.(done, byBook.size)
+    await matchBookHighlights(book, highlights, preview)
+    done++
+  }
+  onProgress?.(done, byBook.size)
+
+  return preview
+}
+
+// returns the number of imported highlights and bookmarks
+export async function importHighlights({ matches, bookmarks }: ImportPreview) {
+  const colors = getSettings().annotationColors ?? defaultAnnotationColors
+  let imported = 0
+
+  const ids = new Set([...matches, ...bookmarks].map((m) => m.book.id))
+  for (const id of ids) {
+    // latest annotations, e.g. made while previewing
+    const book = await db?.books.get(id)
+    if (!book) continue
+
+    const now = Date.now()
+    const count = imported
+    const annotations: Annotation[] = [...book.annotations]
+    matches
+      .filter((m) => m.book.id === id)
+      .forEach(({ highlight: h, anchor }) => {
+        if (annotations.some((a) => a.cfi === anchor.cfi)) return
+
+        annotations.push({
+          id: uuidv4(),
+          bookId: id,
+          cfi: anchor.cfi,
+          spine: anchor.spine,
+          createAt: h.createdAt ?? now,
+          updatedAt: now,
+          type: h.type ?? 'highlight',
+          color: h.color ?? colors[0]!.id,
+          notes: h.notes || undefined,
+          text: anchor.text,
+          quote: anchor.quote,
+        })
+        imported++
+      })
+
+    const bookBookmarks: Bookmark[] = [...(book.bookmarks ?? [])]
+    bookmarks
+      .filter((m) => m.book.id === id)
+      .forEach(({ bookmark: b }) => {
+        if (bookBookmarks.some((m) => m.cfi === b.cfi)) return
+
+        bookBookmarks.push({
+          id: uuidv4(),
+          cfi: b.cfi,
+          spine: b.spine,
+          excerpt: b.excerpt,
+          title: b.name,
+          createdAt: b.createdAt ?? now,
+          updatedAt: now,
+        })
+        imported++
+      })
+
+    if (imported === count) continue
+    const changes = {
+      annotations,
+      bookmarks: bookBookmarks,
+      updatedAt: Date.now(),
+    }
+    await db?.books.update(id, changes)
+    reader.applyBookChanges({ ...book, ...changes })
+    await queueChanges(id, { annotations, bookmarks: bookBookmarks })
+  }
+
+  return imported
+}
@@ -0,0 +1,125 @@
+import { ImportedHighlight } from './importer'
+
+// Parser of `My Clippings.txt` on Kindle devices, where every highlight,
+// note and bookmark is appended as an entry like
+//
+//   Title (Author)
+//   - Your Highlight on page 12 | Location 170-172 | Added on Sunday, ...
+//
+//   Text of the highlight
+//   ==========
+//
+// Notes are separate entries located at the end of their highlights.
+
+const SEPARATOR = /^={10}\s*$/m
+
+type ClippingType = 'highlight' | 'note' | 'bookmark'
+
+export interface Clipping {
+  title: string
+  author?: string
+  type: ClippingType
+  // Kindle locations, or pages of PDFs
+  start?: number
+  end?: number
+  addedAt?: number
+  text: string
+}
+
+// English, Chinese and Japanese Kindles
+const TYPES: [ClippingType, RegExp][] = [
+  ['highlight', /highlight|标注|ハイライト/i],
+  ['note', /note|笔记|メモ/i],
+  ['bookmark', /bookmark|书签|ブックマーク/i],
+]
+const LOCATION =
+  /(?:location|loc\.|位置|位置No\.)\s*#?\s*(\d+)(?:\s*-\s*(\d+))?/i
+const PAGE = /(?:page|第)\s*(\d+)(?:\s*-\s*(\d+))?/i
+const ADDED_ON = /(?:Added on|添加于|作成日)\s*[:：]?\s*(.+)$/i
+
+function parseHeader(line: string) {
+  // the last parenthesized part is the author, titles may contain parentheses
+  const match = line.match(/^(.*?)\s*\(([^()]*)\)\s*$/)
+  return match
+    ? { title: match[1]!.trim(), author: match[2]!.trim() || undefined }
+    : { title: line.trim() }
+}
+
+function parseDate(text?: string) {
+  if (!text) return
+  const time = Date.parse(text)
+  return isNaN(time) ? undefined : time
+}
+
+export function parseClippings(content: string): Clipping[] {
+  const clippings: Clipping[] = []
+
+  content
+    .replace(/^\uFEFF/, '')
+    .split(SEPARATOR)
+    .forEach((entry) => {
+      const lines = entry.trim().split(/\r?\n/)
+      const [header, meta, ...rest] = lines
+      if (!header || !meta?.startsWith('-')) return
+
+      const type = TYPES.find(([, re]) => re.test(meta))?.[0]
+      if (!type) return
+
+      const position = meta.match(LOCATION) ?? meta.match(PAGE)
+      const start = position ? Number(position[1]) : undefined
+      clippings.push({
+        ...parseHeader(header),
+        type,
+        start,
+        end: position?.[2] ? Number(position[2]) : start,
+        addedAt: parseDate(meta.match(ADDED_ON)?.[1]),
+        text: rest.join('\n').trim(),
+      })
+    })
+
+  return clippings
+}
+
+// notes are attached to the highlights ending at their locations, entries
+// of extended highlights are replaced by the later ones
+export function clippingsToHighlights(clippings: Clipping[]) {
+  const highlights: (ImportedHighlight & Pick<Clipping, 'start' | 'end'>)[] = []
+  const notes: Clipping[] = []
+
+  clippings.forEach((c) => {
+    if (c.type === 'note') return notes.push(c)
+    if (c.type !== 'highlight' || !c.text) return
+
+    const i = highlights.findIndex(
+      (h) =>
+        h.title === c.title &&
+        h.start !== undefined &&
+        (h.start === c.start || h.end === c.end) &&
+        (c.text.includes(h.text) || h.text.includes(c.text)),
+    )
+    const { title, author, start, end, addedAt, text } = c
+    const highlight = { title, author, start, end, createdAt: addedAt, text }
+    if (i > -1) highlights.splice(i, 1, highlight)
+    else highlights.push(highlight)
+  })
+
+  const orphans: ImportedHighlight[] = []
+  notes.forEach((note) => {
+    const highlight = highlights.find(
+      (h) =>
+        h.title === note.title &&
+        note.start !== undefined &&
+        h.start !== undefined &&
+        h.start <= note.start &&
+        note.start <= (h.end ?? h.start),
+    )
+    if (highlight) {
+      highlight.notes = [highlight.notes, note.text].filter(Boolean).join('\n')
+    } else {
+      const { title, author, addedAt, text } = note
+      orphans.push({ title, author, createdAt: addedAt, notes: text, text: '' })
+    }
+  })
+
+  return { highlights: highlights as ImportedHighlight[], orphans }
+}
@@ -0,0 +1,256 @@
+import { AnnotationType, defaultAnnotationColors } from './annotation'
+import { ImportedHighlight } from './importer'
+
+// Parser of `metadata.epub.lua` in the `.sdr` directories next to books on
+// KOReader devices, a Lua table like
+//
+//   return {
+//     ["annotations"] = {
+//       [1] = {
+//         ["pos0"] = "/body/DocFragment[12]/body/p[3]/text().15",
+//         ["text"] = "Text of the highlight",
+//         ...
+//       },
+//     },
+//     ["doc_props"] = { ["title"] = "Title", ["authors"] = "Author" },
+//   }
+//
+// Versions before 2024 keep highlights in `highlight`, grouped by page, and
+// their notes in `bookmarks`.
+
+type LuaValue = string | number | boolean | null | LuaTable
+interface LuaTable {
+  [key: string]: LuaValue
+}
+
+const ESCAPES: Record<string, string> = {
+  a: '\x07',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  v: '\v',
+  '\n': '\n',
+}
+
+// only the subset of Lua written by KOReader's serializer
+function parseLua(content: string): LuaValue {
+  let i = 0
+
+  const error = () => new Error(`Unexpected token at ${i}`)
+
+  function skip() {
+    for (;;) {
+      const match = content
+        .slice(i)
+        .match(/^(\s+|--\[(=*)\[[\s\S]*?\]\2\]|--.*)/)
+      if (!match) return
+      i += match[0]!.length
+    }
+  }
+
+  function string(): string {
+    const quote = content[i++]
+    let s = ''
+    // decimal escapes are bytes of UTF-8
+    let bytes: number[] = []
+    const flush = () => {
+      if (!bytes.length) return
+      s += new TextDecoder().decode(Uint8Array.from(bytes))
+      bytes = []
+    }
+
+    while (content[i] !== quote) {
+      const c = content[i++]
+      if (c === undefined) throw error()
+      const digits = c === '\\' && content.slice(i).match(/^\d{1,3}/)?.[0]
+      if (digits) {
+        bytes.push(Number(digits))
+        i += digits.length
+        continue
+      }
+      flush()
+      if (c === '\\') {
+        const e = content[i++]!
+        s += ESCAPES[e] ?? e
+      } else {
+        s += c
+      }
+    }
+    flush()
+    i++
+    return s
+  }
+
+  function value(): LuaValue {
+    skip()
+    const c = content[i]
+    if (c === '{') return table()
+    if (c === '"' || c === "'") return string()
+
+    const long = content.slice(i).match(/^\[(=*)\[\n?([\s\S]*?)\]\1\]/)
+    if (long) {
+      i += long[0]!.length
+      return long[2]!
+    }
+    const word = content.slice(i).match(/^(true|false|nil)\b/)
+    if (word) {
+      i += word[0]!.length
+      return word[1] === 'nil' ? null : word[1] === 'true'
+    }
+    const number = content
+      .slice(i)
+      .match(/^-?(0x[\da-f]+|\d*\.?\d+(e[-+]?\d+)?)/i)
+    if (number) {
+      i += number[0]!.length
+      return Number(number[0])
+    }
+    throw error()
+  }
+
+  function table(): LuaTable {
+    const t: LuaTable = {}
+    let n = 1
+    i++
+    for (;;) {
+      skip()
+      if (content[i] === '}') {
+        i++
+        return t
+      }
+
+      let key: LuaValue
+      const name = content.slice(i).match(/^([A-Za-z_]\w*)\s*=(?!=)/)
+      if (content[i] === '[' && !content.slice(i).match(/^\[=*\[/)) {
+        i++
+        key = value()
+        skip()
+        if (content[i++] !== ']') throw error()
+        skip()
+        if (content[i++] !== '=') throw error()
+      } else if (name) {
+        i += name[0]!.length
+        key = name[1]!
+      } else {
+        key = n++
+      }
+      t[String(key)] = value()
+
+      skip()
+      if (content[i] === ',' || content[i] === ';') i++
+      else if (content[i] !== '}') throw error()
+    }
+  }
+
+  skip()
+  if (content.startsWith('return', i)) i += 'return'.length
+  return value()
+}
+
+function isTable(value?: LuaValue): value is LuaTable {
+  return typeof value === 'object' && value !== null
+}
+
+function str(value?: LuaValue) {
+  return typeof value === 'string' ? value : undefined
+}
+
+// entries of an array-like table in order
+function items(value?: LuaValue) {
+  if (!isTable(value)) return []
+  return Object.keys(value)
+    .filter((k) => /^\d+$/.test(k))
+    .sort((a, b) => Number(a) - Number(b))
+    .map((k) => value[k]!)
+    .filter(isTable)
+}
+
+// e.g. `2024-01-02 10:11:12` in local time
+function parseDate(value?: LuaValue) {
+  const match = str(value)?.match(/^(\d+)-(\d+)-(\d+) (\d+):(\d+):(\d+)$/)
+  if (!match) return
+  const [, y, m, d, h, min, s] = match.map(Number) as number[]
+  return new Date(y!, m! - 1, d, h, min, s).getTime()
+}
+
+const DRAWERS: Record<string, AnnotationType> = {
+  lighten: 'highlight',
+  invert: 'highlight',
+  underscore: 'underline',
+  strikeout: 'strikethrough',
+}
+
+// KOReader colors without ours are imported with the default one
+function color(value?: LuaValue) {
+  const name = str(value)?.toLowerCase()
+  return defaultAnnotationColors.find((c) => c.id === name)?.id
+}
+
+// DocFragments are numbered from 1 in the order of the spine
+function position(
+  pos0?: LuaValue,
+  pos1?: LuaValue,
+): ImportedHighlight['position'] {
+  const start = str(pos0)
+  const end = str(pos1)
+  const fragment = start?.match(/^\/body\/DocFragment\[(\d+)\]/)
+  if (!start || !end || !fragment) return
+  return { spine: Number(fragment[1]) - 1, xpointer: [start, end] }
+}
+
+function basename(path?: string) {
+  return path
+    ?.split('/')
+    .pop()
+    ?.replace(/\.[^.]+$/, '')
+}
+
+export function parseKOReader(content: string): ImportedHighlight[] {
+  const metadata = parseLua(content)
+  if (!isTable(metadata)) throw new Error('Invalid KOReader metadata')
+
+  const props = isTable(metadata.doc_props) ? metadata.doc_props : {}
+  const title =
+    str(props.title) || basename(str(metadata.doc_path)) || 'Untitled'
+  // multiple authors are separated by newlines
+  const author = str(props.authors)?.split('\n').join(', ') || undefined
+
+  const toHighlight = (a: LuaTable, notes?: string): ImportedHighlight => ({
+    title,
+    author,
+    text: str(a.text) ?? '',
+    notes,
+    createdAt: parseDate(a.datetime),
+    type: DRAWERS[str(a.drawer) ?? ''],
+    color: color(a.color),
+    position: position(a.pos0, a.pos1),
+  })
+
+  if (isTable(metadata.annotations)) {
+    return (
+      items(metadata.annotations)
+        // bookmarks have no `pos0`
+        .filter((a) => a.pos0 && a.text)
+        .map((a) => toHighlight(a, str(a.note)))
+    )
+  }
+
+  // notes of highlights are the edited texts of their bookmarks
+  const bookmarks = items(metadata.bookmarks)
+  return Object.values(isTable(metadata.highlight) ? metadata.highlight : {})
+    .flatMap((page) => items(page))
+    .filter((h) => h.text)
+    .map((h) => {
+      const bookmark = bookmarks.find(
+        (b) => b.highlighted && b.pos0 === h.pos0 && b.pos1 === h.pos1,
+      )
+      const notes = str(bookmark?.text)
+      // unedited texts are like `Page 12 Text @ 2020-01-02 10:11:12`
+      const edited =
+        notes &&
+        notes !== str(bookmark?.notes) &&
+        !notes.endsWith(`@ ${str(bookmark?.datetime)}`)
+      return toHighlight(h, edited ? notes : undefined)
+    })
+}
@@ -0,0 +1,74 @@
+import { BookRecord } from './db'
+import { bookMetadata } from './metadata'
+
+export type ReadingStatus = typeof readingStatuses[number]
+
+export const readingStatuses = [
+  'want_to_read',
+  'reading',
+  'finished',
+  'abandoned',
+] as const
+
+export const MAX_RATING = 5
+
+export type LibrarySort = keyof typeof sortMap
+
+const collator = new Intl.Collator(undefined, { numeric: true })
+
+function creator(book: BookRecord) {
+  return bookMetadata(book).creators[0] ?? ''
+}
+
+function title(book: BookRecord) {
+  return bookMetadata(book).title
+}
+
+// `updatedAt` is also bumped by edits, e.g. of the status or tags
+function readAt(book: BookRecord) {
+  return book.progressUpdatedAt ?? book.updatedAt ?? book.createdAt
+}
+
+export const sortMap = {
+  recently_read: (a: BookRecord, b: BookRecord) => readAt(b) - readAt(a),
+  title: (a: BookRecord, b: BookRecord) => collator.compare(title(a), title(b)),
+  author: (a: BookRecord, b: BookRecord) =>
+    collator.compare(creator(a), creator(b)),
+  percentage: (a: BookRecord, b: BookRecord) =>
+    (b.percentage ?? 0) - (a.percentage ?? 0),
+}
+
+export interface LibraryFilter {
+  status?: ReadingStatus
+  shelf?: string
+  tag?: string
+}
+
+export function filterBooks(books: BookRecord[], filter: LibraryFilter) {
+  return books.filter(
+    (b) =>
+      (!filter.status || b.status === filter.status) &&
+      (!filter.shelf || b.shelves?.includes(filter.shelf)) &&
+      (!filter.tag || b.tags?.includes(filter.tag)),
+  )
+}
+
+function collect(books: BookRecord[], getValues: (b: BookRecord) => string[]) {
+  return [...new Set(books.flatMap(getValues))].sort(collator.compare)
+}
+
+export function collectShelves(books: BookRecord[]) {
+  return collect(books, (b) => b.shelves ?? [])
+}
+
+export function collectTags(books: BookRecord[]) {
+  return collect(books, (b) => b.tags ?? [])
+}
+
+// split user input like "sci-fi, classics" into tags
+export function parseTags(input: string) {
+  return input
+    .split(/[,，]/)
+    .map((t) => t.trim())
+    .filter(Boolean)
+}
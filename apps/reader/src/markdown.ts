@@ -0,0 +1,209 @@
+import { saveAs } from 'file-saver'
+import JSZip from 'jszip'
+
+import { EpubCFI } from '@flow/epubjs'
+
+import {
+  Annotation,
+  AnnotationColorOption,
+  defaultAnnotationColors,
+  findAnnotationColor,
+} from './annotation'
+import { BookRecord } from './db'
+import { bookMetadata } from './metadata'
+import { getSettings } from './state'
+import { group } from './utils'
+
+// Annotations of a book are exported as a Markdown file with YAML front
+// matter, e.g. into an Obsidian vault. Each annotation is rendered with
+// `annotationTemplate`, where `{{name}}` is replaced by a variable and
+// `{{#name}}...{{/name}}` is only kept if the variable is not empty.
+
+export const annotationVariables = [
+  'text',
+  'notes',
+  'type',
+  'color',
+  'label',
+  'tags',
+  'chapter',
+  'createdAt',
+  'updatedAt',
+  'cfi',
+  'link',
+] as const
+
+type AnnotationVariables = Record<typeof annotationVariables[number], string>
+
+export const defaultAnnotationTemplate = `> {{text}}
+
+{{#notes}}
+{{notes}}
+
+{{/notes}}
+{{#tags}}{{tags}} · {{/tags}}[{{createdAt}}]({{link}})
+`
+
+const dateFormat = new Intl.DateTimeFormat('sv-SE', {
+  dateStyle: 'short',
+  timeStyle: 'short',
+})
+
+function formatDate(time: number) {
+  return dateFormat.format(new Date(time))
+}
+
+export function renderTemplate(
+  template: string,
+  variables: Record<string, string>,
+) {
+  return template
+    .replace(
+      /{{#(\w+)}}\n?([\s\S]*?){{\/\1}}\n?/g,
+      (_, name: string, content: string) => (variables[name] ? content : ''),
+    )
+    .replace(/{{(\w+)}}/g, (_, name: string) => variables[name] ?? '')
+}
+
+// opens the book at `cfi` in the library page
+export function deepLink(bookId: string, cfi?: string) {
+  const url = new URL('/', window.location.origin)
+  url.searchParams.set('book', bookId)
+  if (cfi) url.searchParams.set('cfi', cfi)
+  return url.href
+}
+
+// e.g. `urn:isbn:978-7-02-000220-7`
+export function isbn(identifier?: string) {
+  const digits = identifier?.replace(/^urn:isbn:|[-\s]/gi, '')
+  return digits && /^(97[89]\d{10}|\d{9}[\dX])$/i.test(digits)
+    ? digits
+    : undefined
+}
+
+function tag(label: string) {
+  return '#' + label.trim().replace(/\s+/g, '-')
+}
+
+function yaml(value: string | string[]): string {
+  // JSON strings are valid in YAML
+  return Array.isArray(value)
+    ? `[${value.map(yaml).join(', ')}]`
+    : JSON.stringify(value)
+}
+
+function frontMatter(book: BookRecord) {
+  const { title, creators, publisher, language } = bookMetadata(book)
+  const fields: [string, string | string[] | undefined][] = [
+    ['title', title],
+    ['author', creators.length > 1 ? creators : creators[0]],
+    ['isbn', isbn(book.metadata?.identifier)],
+    ['publisher', publisher],
+    ['language', language],
+    ['tags', book.tags?.length ? book.tags : undefined],
+    ['source', deepLink(book.id)],
+    ['exported', formatDate(Date.now())],
+  ]
+  return [
+    '---',
+    ...fields
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => `${key}: ${yaml(value!)}`),
+    '---',
+  ].join('\n')
+}
+
+function annotationVariablesOf(
+  book: BookRecord,
+  annotation: Annotation,
+  colors: AnnotationColorOption[],
+): AnnotationVariables {
+  const { color, label } = findAnnotationColor(colors, annotation.color)
+  return {
+    text: annotation.text.replace(/\s*\n\s*/g, ' '),
+    notes: annotation.notes ?? '',
+    type: annotation.type,
+    color,
+    label: label ?? '',
+    tags: label ? tag(label) : '',
+    chapter: annotation.spine.title,
+    createdAt: formatDate(annotation.createAt),
+    updatedAt: formatDate(annotation.updatedAt),
+    cfi: annotation.cfi,
+    link: deepLink(book.id, annotation.cfi),
+  }
+}
+
+// in reading order
+export function sortAnnotations(annotations: Annotation[]) {
+  const epubcfi = new EpubCFI()
+  return [...annotations].sort((a, b) => {
+    try {
+      return epubcfi.compare(a.cfi, b.cfi)
+    } catch {
+      return a.spine.index - b.spine.index
+    }
+  })
+}
+
+export function bookToMarkdown(
+  book: BookRecord,
+  annotations = book.annotations,
+  settings = getSettings(),
+) {
+  const template = settings.annotationTemplate || defaultAnnotationTemplate
+  const colors = settings.annotationColors ?? defaultAnnotationColors
+  const chapters = group(sortAnnotations(annotations), (a) => a.spine.index)
+
+  const sections = Object.values(chapters).map((annotations) =>
+    [
+      `## ${annotations[0]!.spine.title}`,
+      ...annotations.map((a) =>
+        renderTemplate(template, annotationVariablesOf(book, a, colors)).trim(),
+      ),
+    ].join('\n\n'),
+  )
+
+  return (
+    [frontMatter(book), `# ${bookMetadata(book).title}`, ...sections].join(
+      '\n\n',
+    ) + '\n'
+  )
+}
+
+// valid on Windows, macOS and Linux
+export function markdownFilename(book: BookRecord) {
+  const name = bookMetadata(book)
+    .title.replace(/[\\/:*?"<>|#^[\]]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+  return `${name || book.id}.md`
+}
+
+export function downloadMarkdown(book: BookRecord, annotations?: Annotation[]) {
+  const blob = new Blob([bookToMarkdown(book, annotations)], {
+    type: 'text/markdown;charset=utf-8',
+  })
+  saveAs(blob, markdownFilename(book))
+}
+
+// books without annotations are skipped
+export async function downloadMarkdownZip(books: BookRecord[]) {
+  const zip = new JSZip()
+  const names = new Set<string>()
+  books
+    .filter((b) => b.annotations.length)
+    .forEach((book) => {
+      let name = markdownFilename(book)
+      // books with the same title
+      for (let i = 2; names.has(name); i++) {
+        name = markdownFilename(book).replace(/\.md$/, ` ${i}.md`)
+      }
+      names.add(name)
+      zip.file(name, bookToMarkdown(book))
+    })
+
+  const date = new Intl.DateTimeFormat('fr-CA').format().replaceAll('-', '')
+  const content = await zip.generateAsync({ type: 'blob' })
+  saveAs(content, `flow_annotations_${date}.zip`)
+}
@@ -0,0 +1,144 @@
+import { BookRecord } from './db'
+
+// Three-way merge of the `BookRecord`s in `data.json`, so that devices
+// syncing at the same time don't overwrite each other's changes. Changes
+// of this device (`local`) and of other devices (`remote`) since the last
+// sync (`base`) are merged field by field:
+// - annotations and bookmarks by id, the latest edit wins unless deleted later
+// - progress by `progressUpdatedAt`
+// - definitions as a set
+// - other fields by `updatedAt` if changed on both sides
+
+type Tombstones = Record<string, number>
+
+function isEqual(a: unknown, b: unknown) {
+  return JSON.stringify(a) === JSON.stringify(b)
+}
+
+function mergeField<T>(base: T, local: T, remote: T, localWins: boolean) {
+  if (isEqual(local, base)) return remote
+  if (isEqual(remote, base)) return local
+  return localWins ? local : remote
+}
+
+// items removed on either side are removed, added ones are kept
+function mergeSet(base: string[] = [], local: string[], remote: string[]) {
+  return [...new Set([...local, ...remote])].filter(
+    (item) =>
+      !base.includes(item) || (local.includes(item) && remote.includes(item)),
+  )
+}
+
+export function mergeTombstones(
+  local: Tombstones = {},
+  remote: Tombstones = {},
+) {
+  const tombstones = { ...local }
+  Object.entries(remote).forEach(([id, deletedAt]) => {
+    tombstones[id] = Math.max(tombstones[id] ?? 0, deletedAt)
+  })
+  return tombstones
+}
+
+// the latest edit of each item, unless deleted later
+export function mergeItems<T extends { id: string; updatedAt: number }>(
+  local: T[] = [],
+  remote: T[] = [],
+  tombstones: Tombstones,
+) {
+  const items = new Map<string, T>()
+  ;[...local, ...remote].forEach((a) => {
+    const current = items.get(a.id)
+    if (!current || a.updatedAt > current.updatedAt) items.set(a.id, a)
+  })
+
+  return [...items.values()].filter((a) => {
+    const deletedAt = tombstones[a.id]
+    // edited on another device after being deleted
+    return deletedAt === undefined || a.updatedAt > deletedAt
+  })
+}
+
+function progressUpdatedAt(book: BookRecord) {
+  return book.progressUpdatedAt ?? book.updatedAt ?? 0
+}
+
+function mergeBookChanges(
+  base: BookRecord | undefined,
+  local: BookRecord,
+  remote: BookRecord,
+): BookRecord {
+  const localWins = (local.updatedAt ?? 0) >= (remote.updatedAt ?? 0)
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)])
+  const book: Record<string, unknown> = {}
+  keys.forEach((key) => {
+    const k = key as keyof BookRecord
+    book[k] = mergeField(base?.[k], local[k], remote[k], localWins)
+  })
+
+  const progress =
+    progressUpdatedAt(local) >= progressUpdatedAt(remote) ? local : remote
+  const deletedAnnotations = mergeTombstones(
+    local.deletedAnnotations,
+    remote.deletedAnnotations,
+  )
+  const deletedBookmarks = mergeTombstones(
+    local.deletedBookmarks,
+    remote.deletedBookmarks,
+  )
+
+  return {
+    ...(book as unknown as BookRecord),
+    createdAt: Math.min(local.createdAt, remote.createdAt),
+    updatedAt:
+      Math.max(local.updatedAt ?? 0, remote.updatedAt ?? 0) || undefined,
+    cfi: progress.cfi,
+    percentage: progress.percentage,
+    progressUpdatedAt: progress.progressUpdatedAt,
+    definitions: mergeSet(
+      base?.definitions,
+      local.definitions,
+      remote.definitions,
+    ),
+    annotations: mergeItems(
+      local.annotations,
+      remote.annotations,
+      deletedAnnotations,
+    ),
+    deletedAnnotations,
+    bookmarks: mergeItems(local.bookmarks, remote.bookmarks, deletedBookmarks),
+    deletedBookmarks,
+  }
+}
+
+function byId(books: BookRecord[]) {
+  // `data.json` may contain `null`s of books without records
+  return new Map(books.filter(Boolean).map((b) => [b.id, b]))
+}
+
+// books removed on either side since `base` are removed, e.g. deleted in
+// the library of another device
+export function mergeBooks(
+  base: BookRecord[],
+  local: BookRecord[],
+  remote: BookRecord[],
+) {
+  const baseBooks = byId(base)
+  const localBooks = byId(local)
+  const remoteBooks = byId(remote)
+  const books: BookRecord[] = []
+
+  localBooks.forEach((book, id) => {
+    const remoteBook = remoteBooks.get(id)
+    if (remoteBook) {
+      books.push(mergeBookChanges(baseBooks.get(id), book, remoteBook))
+    } else if (!baseBooks.has(id)) {
+      books.push(book)
+    }
+  })
+  remoteBooks.forEach((book, id) => {
+    if (!localBooks.has(id) && !baseBooks.has(id)) books.push(book)
+  })
+
+  return books
+}
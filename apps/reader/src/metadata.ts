@@ -0,0 +1,112 @@
+import { BookRecord, db } from './db'
+import { fileToEpub } from './file'
+
+// Metadata edited by the user, stored in `BookRecord.metadataOverrides`
+// and never written into `BookRecord.metadata`, which is kept as parsed.
+
+export interface MetadataOverrides {
+  title?: string
+  creators?: string[]
+  series?: string
+  seriesIndex?: number
+  language?: string
+  description?: string
+  publisher?: string
+  // data URL
+  cover?: string
+}
+
+export interface BookMetadata {
+  title: string
+  creators: string[]
+  series?: string
+  seriesIndex?: number
+  language?: string
+  description?: string
+  publisher?: string
+}
+
+// longest side of the cover picked by the user, to keep synced data small
+const COVER_SIZE = 600
+
+function nonEmpty(value?: string) {
+  return value?.trim() || undefined
+}
+
+export function originalMetadata(book: BookRecord): BookMetadata {
+  const { metadata } = book
+  return {
+    title: nonEmpty(metadata?.title) ?? book.name,
+    creators: metadata?.creator ? [metadata.creator] : [],
+    language: nonEmpty(metadata?.language),
+    description: nonEmpty(metadata?.description),
+    publisher: nonEmpty(metadata?.publisher),
+  }
+}
+
+export function bookMetadata(book: BookRecord): BookMetadata {
+  const original = originalMetadata(book)
+  const o = book.metadataOverrides ?? {}
+  return {
+    title: nonEmpty(o.title) ?? original.title,
+    creators: o.creators?.length ? o.creators : original.creators,
+    series: nonEmpty(o.series),
+    seriesIndex: o.seriesIndex,
+    language: nonEmpty(o.language) ?? original.language,
+    description: nonEmpty(o.description) ?? original.description,
+    publisher: nonEmpty(o.publisher) ?? original.publisher,
+  }
+}
+
+// shown in the library and tabs, file name unless the title is edited
+export function displayTitle(book: BookRecord) {
+  return nonEmpty(book.metadataOverrides?.title) ?? book.name
+}
+
+// drop empty fields, so that the original metadata is used for them
+export function cleanOverrides(o: MetadataOverrides) {
+  const entries = Object.entries(o).filter(([, v]) =>
+    Array.isArray(v) ? v.length : v !== undefined && v !== '',
+  )
+  return entries.length
+    ? (Object.fromEntries(entries) as MetadataOverrides)
+    : undefined
+}
+
+export async function resizeCover(src: Blob | string) {
+  const url = typeof src === 'string' ? src : URL.createObjectURL(src)
+  try {
+    const img = new Image()
+    img.src = url
+    await img.decode()
+
+    const scale = Math.min(1, COVER_SIZE / Math.max(img.width, img.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(img.width * scale)
+    canvas.height = Math.round(img.height * scale)
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height)
+    return canvas.toDataURL('image/jpeg', 0.85)
+  } finally {
+    if (typeof src !== 'string') URL.revokeObjectURL(url)
+  }
+}
+
+// images in the book, to pick a cover from
+export async function bookImages(bookId: string) {
+  const file = await db?.files.get(bookId)
+  if (!file) return []
+
+  const epub = await fileToEpub(file.file)
+  try {
+    await epub.ready
+    const assets: { href: string; type: string }[] = (epub.resources as any)
+      .assets
+    return await Promise.all(
+      assets
+        .filter((a) => a.type.startsWith('image/'))
+        .map((a) => epub.archive.getBlob(epub.resolve(a.href), a.type)),
+    )
+  } finally {
+    epub.destroy()
+  }
+}
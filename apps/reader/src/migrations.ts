@@ -0,0 +1,130 @@
+import { BookRecord, db } from './db'
+
+// Backups and `data.json` record the format `version` and the `dbVersion`
+// of the `BookRecord`s they contain. Older ones are upgraded one version at
+// a time before being written into the database.
+
+export const VERSION = 1
+
+type Migration<T> = (data: T) => T
+
+// upgrade `data.json` from `version - 1` to `version`
+const dataMigrations: Record<number, Migration<any>> = {}
+
+// upgrade a `BookRecord` from `dbVersion - 1` to `dbVersion`, mirroring
+// the upgrades of `DB`, versions without changes to records are omitted
+const bookMigrations: Record<number, Migration<any>> = {
+  // parsed from the file, which is not available here
+  3: (book) => ({
+    ...book,
+    size: book.size ?? 0,
+    metadata: book.metadata ?? {},
+  }),
+  4: (book) => ({ ...book, annotations: book.annotations ?? [] }),
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isStringArray(value: unknown) {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string')
+}
+
+function optional(value: unknown, check: (value: unknown) => boolean) {
+  return value === undefined || check(value)
+}
+
+const isNumber = (value: unknown) => typeof value === 'number'
+const isString = (value: unknown) => typeof value === 'string'
+
+export function isBookRecord(book: unknown): book is BookRecord {
+  return (
+    isObject(book) &&
+    isString(book.id) &&
+    isString(book.name) &&
+    isNumber(book.size) &&
+    isObject(book.metadata) &&
+    isNumber(book.createdAt) &&
+    optional(book.updatedAt, isNumber) &&
+    optional(book.cfi, isString) &&
+    optional(book.percentage, isNumber) &&
+    optional(book.progressUpdatedAt, isNumber) &&
+    isStringArray(book.definitions) &&
+    Array.isArray(book.annotations) &&
+    book.annotations.every(
+      (a: unknown) => isObject(a) && isString(a.id) && isString(a.cfi),
+    ) &&
+    optional(book.deletedAnnotations, isObject) &&
+    optional(
+      book.bookmarks,
+      (bookmarks) =>
+        Array.isArray(bookmarks) &&
+        bookmarks.every(
+          (b: unknown) => isObject(b) && isString(b.id) && isString(b.cfi),
+        ),
+    ) &&
+    optional(book.deletedBookmarks, isObject) &&
+    optional(book.configuration, isObject) &&
+    optional(book.shelves, isStringArray) &&
+    optional(book.tags, isStringArray) &&
+    optional(book.status, isString) &&
+    optional(book.rating, isNumber) &&
+    optional(book.metadataOverrides, isObject)
+  )
+}
+
+function migrate<T>(
+  data: T,
+  migrations: Record<number, Migration<T>>,
+  from: number,
+  to: number,
+) {
+  for (let v = from + 1; v <= to; v++) {
+    data = migrations[v]?.(data) ?? data
+  }
+  return data
+}
+
+// a record skipped by `migrateData`, so that the rest can still be read
+export interface InvalidBook {
+  // `name` of the record, or its index
+  name: string
+  // as read, kept in `data.json` when written back
+  record: unknown
+}
+
+export function migrateData(data: unknown) {
+  if (!isObject(data)) throw new Error('Invalid data: not an object')
+
+  // the first backups have no versions
+  const version: number = data.version ?? 1
+  const dbVersion: number = data.dbVersion ?? 1
+  const currentDbVersion = db?.verno ?? dbVersion
+
+  if (version > VERSION || dbVersion > currentDbVersion) {
+    throw new Error(
+      `Data of version ${version}/${dbVersion} is newer than supported ` +
+        `${VERSION}/${currentDbVersion}, please update the app`,
+    )
+  }
+
+  const { books } = migrate(data, dataMigrations, version, VERSION)
+  if (!Array.isArray(books)) throw new Error('Invalid data: no books')
+
+  const valid: BookRecord[] = []
+  const invalid: InvalidBook[] = []
+  books.forEach((record, i) => {
+    // remote files without local records are serialized as `null`
+    if (record === null) return
+    const book = migrate(record, bookMigrations, dbVersion, currentDbVersion)
+    if (isBookRecord(book)) {
+      valid.push(book)
+    } else {
+      const name = isObject(record) && isString(record.name) ? record.name : ''
+      invalid.push({ name: name || `#${i + 1}`, record })
+    }
+  })
+
+  return { books: valid, invalid }
+}
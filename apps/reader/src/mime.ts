@@ -5,4 +5,47 @@ export const mapExtToMimes = {
     'application/zip-compressed',
     'application/x-zip-compressed',
   ],
+  '.txt': ['text/plain'],
+  '.md': ['text/markdown', 'text/x-markdown'],
+  '.fb2': [
+    'application/x-fictionbook+xml',
+    'application/x-fictionbook',
+    'text/fb2+xml',
+  ],
+  '.fb2.zip': ['application/x-zip-compressed-fb2'],
+  '.cbz': ['application/vnd.comicbook+zip', 'application/x-cbz'],
+}
+
+export type Ext = keyof typeof mapExtToMimes
+
+// `file.type` is empty when the OS does not know the extension, e.g. `.md` on Windows
+export function matchExt(file: File, ext: Ext) {
+  return (
+    mapExtToMimes[ext].includes(file.type) ||
+    file.name.toLowerCase().endsWith(ext)
+  )
+}
+
+// e.g. `application/epub+zip;charset=utf-8` -> `.epub`
+export function extOfMime(mime: string) {
+  const type = mime.split(';')[0]!.trim().toLowerCase()
+  return (Object.keys(mapExtToMimes) as Ext[]).find((ext) =>
+    mapExtToMimes[ext].includes(type),
+  )
 }
+
+// formats converted to EPUB before rendering
+export const convertibleExts: Ext[] = [
+  '.txt',
+  '.md',
+  '.fb2',
+  '.fb2.zip',
+  '.cbz',
+]
+
+export const acceptedExts: Ext[] = ['.epub', '.zip', ...convertibleExts]
+
+// value of `<input type="file" accept>`
+export const accept = acceptedExts
+  .flatMap((ext) => [ext, ...mapExtToMimes[ext]])
+  .join(',')
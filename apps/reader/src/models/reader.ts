@@ -4,13 +4,19 @@ import React from 'react'
 import { v4 as uuidv4 } from 'uuid'
 import { proxy, ref, snapshot, subscribe, useSnapshot } from 'valtio'
 
-import type { Rendition, Location, Book } from '@flow/epubjs'
+import type { Rendition, Location, Book, Contents } from '@flow/epubjs'
+import View from '@flow/epubjs/types/managers/view'
 import Navigation, { NavItem } from '@flow/epubjs/types/navigation'
 import Section from '@flow/epubjs/types/section'
 
+import { anchorQuote, matchQuote, quoteFromRange } from '../anchor'
 import { AnnotationColor, AnnotationType } from '../annotation'
+import { Bookmark, excerptLocation, isBookmarkDisplayed } from '../bookmark'
+import { isComic } from '../cbz'
 import { BookRecord, db } from '../db'
 import { fileToEpub } from '../file'
+import { displayTitle } from '../metadata'
+import { attachFile, restoreFile } from '../storage'
 import { defaultStyle } from '../styles'
 
 import { dfs, find, INode } from './tree'
@@ -62,7 +68,11 @@ interface TimelineItem {
 }
 
 class BaseTab {
-  constructor(public readonly id: string, public readonly title = id) {}
+  constructor(public readonly id: string, private readonly _title = id) {}
+
+  get title() {
+    return this._title
+  }
 
   get isBook(): boolean {
     return this instanceof BookTab
@@ -87,6 +97,10 @@ export class BookTab extends BaseTab {
   results?: IMatch[]
   activeResultID?: string
   rendered = false
+  // the file was offloaded and can't be restored from the cloud
+  missingFile = false
+  // displayed instead of the saved progress when rendered
+  initialCfi?: string
   readingMode: 'paginated' | 'scrolled' = 'paginated'
 
   get container() {
@@ -120,6 +134,53 @@ export class BookTab extends BaseTab {
   next() {
     this.rendition?.next()
   }
+  // pages turn the other way in right to left comics
+  left() {
+    this.rtl ? this.next() : this.prev()
+  }
+  right() {
+    this.rtl ? this.prev() : this.next()
+  }
+
+  get title() {
+    return displayTitle(this.book)
+  }
+
+  get isComic() {
+    return isComic(this.book)
+  }
+
+  get comic() {
+    return this.isComic ? this.book.configuration?.comic ?? {} : undefined
+  }
+
+  get rtl() {
+    return !!this.comic?.rtl
+  }
+
+  applyComic() {
+    if (!this.rendition || !this.comic) return
+    // `direction` clears and re-displays the current location, which also
+    // resets the scale of `fitComicWidth`
+    this.rendition.direction(this.rtl ? 'rtl' : 'ltr')
+    if (this.container) {
+      this.container.style.overflowY =
+        this.comic.fit === 'width' ? 'auto' : 'hidden'
+    }
+  }
+
+  // pre-paginated views always fit the page, scale up to fill the width
+  fitComicWidth(view: View) {
+    const container = this.container
+    if (this.comic?.fit !== 'width' || !container || !view.contents) return
+
+    const viewport = view.contents.viewport()
+    const width = container.clientWidth
+    const scale = width / parseInt(viewport.width)
+    view.contents.scaler(scale, 0, 0)
+    view.reframe(width, parseInt(viewport.height) * scale)
+    container.scrollTop = 0
+  }
 
   updateBook(changes: Partial<BookRecord>) {
     changes = {
@@ -169,6 +230,7 @@ export class BookTab extends BaseTab {
 
     const now = Date.now()
     if (!annotation) {
+      const range = this.view?.contents.range(cfi)
       annotation = {
         id: uuidv4(),
         bookId: this.book.id,
@@ -183,6 +245,7 @@ export class BookTab extends BaseTab {
         color,
         notes,
         text,
+        quote: range ? quoteFromRange(range) : undefined,
       }
 
       this.updateBook({
@@ -204,11 +267,145 @@ export class BookTab extends BaseTab {
       })
     }
   }
+  // ids of annotations whose text is not found in the book, e.g. after the
+  // file is replaced by another edition
+  orphanedAnnotations: string[] = []
+
+  // annotations of a rendered section whose CFIs don't resolve to their text
+  // are re-anchored by their quotes
+  private reanchorAnnotations(section: ISection, contents: Contents) {
+    const orphans = new Set(this.orphanedAnnotations)
+    let changed = false
+
+    const annotations = snapshot(this.book.annotations).map((a) => {
+      if (a.spine.index !== section.index) return a
+
+      const quote = a.quote ?? { exact: a.text, prefix: '', suffix: '' }
+      let range: Range | undefined
+      try {
+        range = contents.range(a.cfi)
+      } catch {
+        // malformed or unresolvable CFI
+      }
+      if (matchQuote(range, quote)) {
+        orphans.delete(a.id)
+        return a
+      }
+
+      const anchored = anchorQuote(contents.document, quote)
+      if (!anchored) {
+        orphans.add(a.id)
+        return a
+      }
+      orphans.delete(a.id)
+      changed = true
+      return {
+        ...a,
+        cfi: contents.cfiFromRange(anchored),
+        text: anchored.toString(),
+        quote: quoteFromRange(anchored),
+        updatedAt: Date.now(),
+      }
+    })
+
+    this.orphanedAnnotations = [...orphans]
+    if (changed) this.updateBook({ annotations })
+  }
   removeAnnotation(cfi: string) {
+    const annotation = this.book.annotations.find((a) => a.cfi === cfi)
+    if (!annotation) return
+
     return this.updateBook({
       annotations: snapshot(this.book.annotations).filter((a) => a.cfi !== cfi),
+      deletedAnnotations: {
+        ...this.book.deletedAnnotations,
+        [annotation.id]: Date.now(),
+      },
+    })
+  }
+
+  get bookmarks() {
+    return this.book.bookmarks ?? []
+  }
+  // bookmarks within the displayed pages
+  get displayedBookmarks() {
+    const { rendition, location } = this
+    if (!rendition || !location) return []
+    return this.bookmarks.filter((b) =>
+      isBookmarkDisplayed(rendition, b, location),
+    )
+  }
+  addBookmark() {
+    const { rendition, location } = this
+    if (!rendition || !location) return
+
+    const now = Date.now()
+    const bookmark: Bookmark = {
+      id: uuidv4(),
+      cfi: location.start.cfi,
+      spine: {
+        index: location.start.index,
+        title: this.mapSectionToNavItem(location.start.href)?.label ?? '',
+      },
+      excerpt: excerptLocation(rendition, location),
+      createdAt: now,
+      updatedAt: now,
+    }
+    this.updateBook({
+      bookmarks: [...snapshot(this.bookmarks), bookmark],
+    })
+  }
+  renameBookmark(id: string, title?: string) {
+    this.updateBook({
+      bookmarks: snapshot(this.bookmarks).map((b) =>
+        b.id === id ? { ...b, title, updatedAt: Date.now() } : b,
+      ),
     })
   }
+  removeBookmarks(ids: string[]) {
+    const now = Date.now()
+    const deleted = Object.fromEntries(ids.map((id) => [id, now]))
+    this.updateBook({
+      bookmarks: snapshot(this.bookmarks).filter((b) => !ids.includes(b.id)),
+      deletedBookmarks: { ...this.book.deletedBookmarks, ...deleted },
+    })
+  }
+  toggleBookmark() {
+    const displayed = this.displayedBookmarks
+    if (displayed.length) {
+      this.removeBookmarks(displayed.map((b) => b.id))
+    } else {
+      this.addBookmark()
+    }
+  }
+
+  // apply changes of other devices merged on sync, see `mergeBooks`
+  applyRemoteChanges({
+    definitions,
+    annotations,
+    deletedAnnotations,
+    bookmarks,
+    deletedBookmarks,
+  }: BookRecord) {
+    const changes = {
+      definitions,
+      annotations,
+      deletedAnnotations,
+      bookmarks,
+      deletedBookmarks,
+    }
+    const current = {
+      definitions: this.book.definitions,
+      annotations: this.book.annotations,
+      deletedAnnotations: this.book.deletedAnnotations,
+      bookmarks: this.book.bookmarks,
+      deletedBookmarks: this.book.deletedBookmarks,
+    }
+    if (JSON.stringify(changes) === JSON.stringify(current)) return
+
+    this.book = { ...this.book, ...changes }
+    db?.books.update(this.book.id, changes)
+  }
 
   keyword = ''
   setKeyword(keyword: string) {
@@ -379,14 +576,34 @@ export class BookTab extends BaseTab {
     }
   }
 
+  // provide the file of an offloaded book, `false` if it's another book
+  async attachFile(file: File) {
+    if (!(await attachFile(this.book, file))) return false
+
+    const el = this._el
+    this._el = undefined
+    if (el) this.render(el)
+    return true
+  }
+
   async render(el: HTMLDivElement) {
     if (el === this._el) return
     this._el = ref(el)
 
-    const file = await db?.files.get(this.book.id)
-    if (!file) return
+    const file =
+      (await db?.files.get(this.book.id))?.file ??
+      (await restoreFile(this.book))
+    if (!file) {
+      this.missingFile = true
+      return
+    }
+    this.missingFile = false
 
-    this.epub = ref(await fileToEpub(file.file))
+    if (!this.book.status || this.book.status === 'want_to_read') {
+      this.updateBook({ status: 'reading' })
+    }
+
+    this.epub = ref(await fileToEpub(file))
 
     this.epub.loaded.navigation.then((nav) => {
       this.nav = nav
@@ -402,7 +619,7 @@ export class BookTab extends BaseTab {
       this.sections = ref(sections)
       this.preloadSections()
     })
-    
+
     this.rendition = ref(
       this.epub.renderTo(el, {
         width: '100%',
@@ -412,8 +629,10 @@ export class BookTab extends BaseTab {
     )
     console.log(this.rendition)
     this.rendition.display(
-      this.location?.start.cfi ?? this.book.cfi ?? undefined,
+      this.initialCfi ?? this.location?.start.cfi ?? this.book.cfi ?? undefined,
     )
+    // rendering again keeps the location
+    this.initialCfi = undefined
     this.rendition.themes.default(defaultStyle)
     this.rendition.hooks.render.register((view: any) => {
       console.log('hooks.render', view)
@@ -432,20 +651,25 @@ export class BookTab extends BaseTab {
       if (this.sections) {
         const start = loc.start
         const i = this.sections.findIndex((s) => s.href === start.href)
+        // sections have no text in comics, count them instead
+        const length = (s: ISection) => (this.totalLength ? s.length : 1)
+        const totalLength = this.totalLength || this.sections.length
         const previousSectionsLength = this.sections
           .slice(0, i)
-          .reduce((acc, s) => acc + s.length, 0)
-        const previousSectionsPercentage =
-          previousSectionsLength / this.totalLength
-        const currentSectionPercentage =
-          this.sections[i]!.length / this.totalLength
+          .reduce((acc, s) => acc + length(s), 0)
+        const previousSectionsPercentage = previousSectionsLength / totalLength
+        const currentSectionPercentage = length(this.sections[i]!) / totalLength
         const displayedPercentage = start.displayed.page / start.displayed.total
 
         const percentage =
           previousSectionsPercentage +
           currentSectionPercentage * displayedPercentage
 
-        this.updateBook({ cfi: start.cfi, percentage })
+        this.updateBook({
+          cfi: start.cfi,
+          percentage,
+          progressUpdatedAt: Date.now(),
+        })
       }
     })
 
@@ -462,6 +686,8 @@ export class BookTab extends BaseTab {
       console.log('rendered', [section, view])
       this.section = ref(section)
       this.iframe = ref(view.window as Window)
+      if (view.contents) this.reanchorAnnotations(section, view.contents)
+      this.fitComicWidth(view)
     })
     this.rendition.on('selected', (...args: any[]) => {
       console.log('selected', args)
@@ -571,6 +797,31 @@ export class Reader {
     return group.addTab(param)
   }
 
+  // changes made outside of the tabs, e.g. imported annotations, which the
+  // open tabs would otherwise overwrite with their copies
+  applyBookChanges(book: BookRecord) {
+    this.groups.forEach((group) =>
+      group.tabs.forEach((tab) => {
+        if (tab instanceof BookTab && tab.book.id === book.id) {
+          tab.applyRemoteChanges(book)
+        }
+      }),
+    )
+  }
+
+  // open or focus the tab of `book`, and go to `cfi`
+  openBook(book: BookRecord, cfi?: string) {
+    this.addTab(book)
+    const tab = this.focusedBookTab
+    if (!tab || !cfi) return
+
+    if (tab.rendition) {
+      tab.display(cfi)
+    } else {
+      tab.initialCfi = cfi
+    }
+  }
+
   removeTab(index: number, groupIdx = this.focusedIndex) {
     const group = this.groups[groupIdx]
     if (group?.tabs.length === 1) {
@@ -0,0 +1,151 @@
+import {
+  Annotation,
+  AnnotationColor,
+  AnnotationColorOption,
+} from './annotation'
+import { BookRecord, db } from './db'
+import { sortAnnotations } from './markdown'
+import { bookMetadata } from './metadata'
+import { reader } from './models'
+import { queueChanges } from './outbox'
+import { group } from './utils'
+
+// Annotations of every book, browsed in the notebook page
+
+export interface NotebookEntry {
+  book: BookRecord
+  annotation: Annotation
+}
+
+export interface NotebookFilter {
+  // in text and notes
+  query?: string
+  bookId?: string
+  type?: string
+  color?: string
+  // `yyyy-mm-dd` in local time, both inclusive
+  from?: string
+  to?: string
+}
+
+export const notebookSorts = ['newest', 'oldest', 'book', 'color'] as const
+export type NotebookSort = typeof notebookSorts[number]
+
+export function notebookEntries(books: BookRecord[]): NotebookEntry[] {
+  return books.flatMap((book) =>
+    book.annotations.map((annotation) => ({ book, annotation })),
+  )
+}
+
+function day(date: string, offset = 0) {
+  const time = new Date(`${date}T00:00`).getTime()
+  return time + offset * 24 * 60 * 60 * 1000
+}
+
+export function filterEntries(
+  entries: NotebookEntry[],
+  { query, bookId, type, color, from, to }: NotebookFilter,
+) {
+  const q = query?.trim().toLowerCase()
+  const start = from ? day(from) : -Infinity
+  const end = to ? day(to, 1) : Infinity
+
+  return entries.filter(
+    ({ book, annotation: a }) =>
+      (!bookId || book.id === bookId) &&
+      (!type || a.type === type) &&
+      (!color || a.color === color) &&
+      a.createAt >= start &&
+      a.createAt < end &&
+      (!q ||
+        a.text.toLowerCase().includes(q) ||
+        !!a.notes?.toLowerCase().includes(q)),
+  )
+}
+
+export function sortEntries(
+  entries: NotebookEntry[],
+  sort: NotebookSort,
+  colors: AnnotationColorOption[],
+) {
+  switch (sort) {
+    case 'newest':
+      return [...entries].sort(
+        (a, b) => b.annotation.createAt - a.annotation.createAt,
+      )
+    case 'oldest':
+      return [...entries].sort(
+        (a, b) => a.annotation.createAt - b.annotation.createAt,
+      )
+    case 'color': {
+      // in the order of the colors in settings
+      const index = (e: NotebookEntry) => {
+        const i = colors.findIndex((c) => c.id === e.annotation.color)
+        return i < 0 ? colors.length : i
+      }
+      return [...entries].sort(
+        (a, b) =>
+          index(a) - index(b) || b.annotation.createAt - a.annotation.createAt,
+      )
+    }
+    case 'book': {
+      // by title, annotations of a book in reading order
+      const books = Object.values(group(entries, (e) => e.book.id))
+      return books
+        .sort((a, b) =>
+          bookMetadata(a[0]!.book).title.localeCompare(
+            bookMetadata(b[0]!.book).title,
+          ),
+        )
+        .flatMap((entries) => {
+          const book = entries[0]!.book
+          return sortAnnotations(entries.map((e) => e.annotation)).map(
+            (annotation) => ({ book, annotation }),
+          )
+        })
+    }
+  }
+}
+
+async function updateAnnotations(
+  entries: NotebookEntry[],
+  update: (book: BookRecord, ids: string[]) => Partial<BookRecord>,
+) {
+  const byBook = group(entries, (e) => e.book.id)
+  for (const [id, entries] of Object.entries(byBook)) {
+    // latest annotations, e.g. made in the open tab
+    const book = await db?.books.get(id)
+    if (!book) continue
+
+    const changes = update(
+      book,
+      entries.map((e) => e.annotation.id),
+    )
+    await db?.books.update(id, { ...changes, updatedAt: Date.now() })
+    reader.applyBookChanges({ ...book, ...changes })
+    await queueChanges(id, changes)
+  }
+}
+
+export function removeAnnotations(entries: NotebookEntry[]) {
+  const now = Date.now()
+  return updateAnnotations(entries, (book, ids) => ({
+    annotations: book.annotations.filter((a) => !ids.includes(a.id)),
+    deletedAnnotations: {
+      ...book.deletedAnnotations,
+      ...Object.fromEntries(ids.map((id) => [id, now])),
+    },
+  }))
+}
+
+export function recolorAnnotations(
+  entries: NotebookEntry[],
+  color: AnnotationColor,
+) {
+  const now = Date.now()
+  return updateAnnotations(entries, (book, ids) => ({
+    annotations: book.annotations.map((a) =>
+      ids.includes(a.id) ? { ...a, color, updatedAt: now } : a,
+    ),
+  }))
+}
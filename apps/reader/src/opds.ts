@@ -0,0 +1,283 @@
+import { fetchBook } from './file'
+import { Ext, extOfMime } from './mime'
+
+// OPDS 1.2 (Atom) and 2.0 (JSON) catalogs
+// https://specs.opds.io/opds-1.2
+// https://drafts.opds.io/opds-2.0
+
+export interface OpdsCatalog {
+  id: string
+  title: string
+  url: string
+  username?: string
+  password?: string
+}
+
+export interface OpdsLink {
+  href: string
+  rel?: string
+  type?: string
+  title?: string
+}
+
+export interface OpdsEntry {
+  id: string
+  title: string
+  authors: string[]
+  summary?: string
+  thumbnail?: string
+  // link to another feed, for navigation entries
+  feed?: OpdsLink
+  acquisitions: OpdsLink[]
+}
+
+export interface OpdsFeed {
+  url: string
+  title: string
+  entries: OpdsEntry[]
+  links: OpdsLink[]
+}
+
+const ACQUISITION = 'http://opds-spec.org/acquisition'
+const IMAGE = 'http://opds-spec.org/image'
+const OPENSEARCH = 'application/opensearchdescription+xml'
+
+// preferred formats when an entry has several acquisition links
+const preferredExts: Ext[] = [
+  '.epub',
+  '.fb2',
+  '.fb2.zip',
+  '.cbz',
+  '.txt',
+  '.md',
+]
+
+function authorization({ username, password }: OpdsCatalog) {
+  if (!username && !password) return undefined
+  // `btoa` only accepts latin1
+  const credentials = String.fromCharCode(
+    ...new TextEncoder().encode(`${username ?? ''}:${password ?? ''}`),
+  )
+  return `Basic ${btoa(credentials)}`
+}
+
+// most servers on LAN (e.g. calibre) don't send CORS headers,
+// so fall back to `/api/opds` when the request is blocked
+export async function opdsFetch(catalog: OpdsCatalog, url: string) {
+  const auth = authorization(catalog)
+  let res: Response
+  try {
+    res = await fetch(url, {
+      headers: auth ? { Authorization: auth } : undefined,
+    })
+  } catch {
+    res = await fetch('/api/opds', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        url,
+        username: catalog.username,
+        password: catalog.password,
+      }),
+    })
+  }
+  if (!res.ok) throw new Error(`HTTP ${res.status} ${res.statusText}: ${url}`)
+  return res
+}
+
+function resolve(href: string, base: string): string {
+  // keep URI templates intact, e.g. `/search{?query}`
+  const i = href.indexOf('{')
+  if (i > 0) return resolve(href.slice(0, i), base) + href.slice(i)
+  try {
+    return new URL(href, base).href
+  } catch {
+    return href
+  }
+}
+
+function children(el: Element | Document, name: string) {
+  return [...el.children].filter((c) => c.localName === name)
+}
+
+function childText(el: Element, name: string) {
+  return children(el, name)[0]?.textContent?.trim() ?? ''
+}
+
+function atomLinks(el: Element, base: string): OpdsLink[] {
+  return children(el, 'link').map((l) => ({
+    href: resolve(l.getAttribute('href') ?? '', base),
+    rel: l.getAttribute('rel') ?? undefined,
+    type: l.getAttribute('type') ?? undefined,
+    title: l.getAttribute('title') ?? undefined,
+  }))
+}
+
+function isFeedLink({ rel, type }: OpdsLink) {
+  return (
+    !rel?.startsWith(ACQUISITION) &&
+    !rel?.startsWith(IMAGE) &&
+    !!type &&
+    /application\/(atom\+xml|opds\+json)/.test(type)
+  )
+}
+
+export function parseAtomFeed(xml: string, url: string): OpdsFeed {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const feed = doc.documentElement
+  if (feed.localName !== 'feed') throw new Error(`Invalid OPDS feed: ${url}`)
+
+  const entries = children(feed, 'entry').map((e): OpdsEntry => {
+    const links = atomLinks(e, url)
+    return {
+      id: childText(e, 'id') || links[0]?.href || '',
+      title: childText(e, 'title'),
+      authors: children(e, 'author').map((a) => childText(a, 'name')),
+      summary: childText(e, 'summary') || childText(e, 'content') || undefined,
+      thumbnail: (
+        links.find((l) => l.rel === `${IMAGE}/thumbnail`) ??
+        links.find((l) => l.rel === IMAGE)
+      )?.href,
+      feed: links.find(isFeedLink),
+      acquisitions: links.filter((l) => l.rel?.startsWith(ACQUISITION)),
+    }
+  })
+
+  return {
+    url,
+    title: childText(feed, 'title'),
+    entries,
+    links: atomLinks(feed, url),
+  }
+}
+
+interface JsonLink extends OpdsLink {
+  templated?: boolean
+}
+
+interface JsonPublication {
+  metadata: {
+    identifier?: string
+    title: string
+    author?: string | { name: string } | Array<string | { name: string }>
+    description?: string
+  }
+  links: JsonLink[]
+  images?: JsonLink[]
+}
+
+interface JsonFeed {
+  metadata: { title: string }
+  links?: JsonLink[]
+  navigation?: JsonLink[]
+  publications?: JsonPublication[]
+  groups?: Omit<JsonFeed, 'links' | 'groups'>[]
+}
+
+export function parseJsonFeed(json: JsonFeed, url: string): OpdsFeed {
+  const link = (l: JsonLink) => ({ ...l, href: resolve(l.href, url) })
+
+  const navigation = (n: JsonLink): OpdsEntry => ({
+    id: n.href,
+    title: n.title ?? n.href,
+    authors: [],
+    feed: link(n),
+    acquisitions: [],
+  })
+  const publication = ({ metadata, links, images }: JsonPublication) => {
+    const authors = [metadata.author ?? []].flat()
+    return {
+      id: metadata.identifier ?? links[0]?.href ?? metadata.title,
+      title: metadata.title,
+      authors: authors.map((a) => (typeof a === 'string' ? a : a.name)),
+      summary: metadata.description,
+      thumbnail: images?.[0] && link(images[0]).href,
+      acquisitions: links
+        .filter((l) => l.rel?.startsWith(ACQUISITION))
+        .map(link),
+    }
+  }
+
+  const sections = [json, ...(json.groups ?? [])]
+  return {
+    url,
+    title: json.metadata.title,
+    entries: sections.flatMap((s) => [
+      ...(s.navigation ?? []).map(navigation),
+      ...(s.publications ?? []).map(publication),
+    ]),
+    links: (json.links ?? []).map(link),
+  }
+}
+
+export async function loadFeed(catalog: OpdsCatalog, url = catalog.url) {
+  const res = await opdsFetch(catalog, url)
+  const text = await res.text()
+  return text.trimStart().startsWith('{')
+    ? parseJsonFeed(JSON.parse(text), url)
+    : parseAtomFeed(text, url)
+}
+
+// returns a URL template with `{searchTerms}`, if the feed is searchable
+export async function searchTemplate(catalog: OpdsCatalog, feed: OpdsFeed) {
+  const link = feed.links.find((l) => l.rel === 'search')
+  if (!link) return
+
+  if (link.type !== OPENSEARCH) {
+    // OPDS 2.0 uses URI templates, e.g. `/search{?query}`
+    return link.href.replace(/\{\?query[^}]*\}/, '?query={searchTerms}')
+  }
+
+  const res = await opdsFetch(catalog, link.href)
+  const doc = new DOMParser().parseFromString(
+    await res.text(),
+    'application/xml',
+  )
+  const urls = [...doc.getElementsByTagNameNS('*', 'Url')]
+  const url =
+    urls.find((u) => u.getAttribute('type')?.includes('atom')) ?? urls[0]
+  const template = url?.getAttribute('template')
+  return template ? resolve(template, link.href) : undefined
+}
+
+export function fillSearchTemplate(template: string, query: string) {
+  return (
+    template
+      .replace(/\{searchTerms\}/g, encodeURIComponent(query))
+      // optional parameters, e.g. `{startPage?}`
+      .replace(/\{[^}]*\?\}/g, '')
+  )
+}
+
+export function acquisitionExt(link: OpdsLink) {
+  return link.type ? extOfMime(link.type) : undefined
+}
+
+// the acquisition link of the most preferred format we can read
+export function preferredAcquisition(entry: OpdsEntry) {
+  return entry.acquisitions
+    .filter((l) => preferredExts.includes(acquisitionExt(l)!))
+    .sort(
+      (a, b) =>
+        preferredExts.indexOf(acquisitionExt(a)!) -
+        preferredExts.indexOf(acquisitionExt(b)!),
+    )[0]
+}
+
+export function downloadEntry(
+  catalog: OpdsCatalog,
+  entry: OpdsEntry,
+  link = preferredAcquisition(entry),
+) {
+  if (!link) throw new Error(`No supported format: ${entry.title}`)
+
+  const name = [entry.title, entry.authors[0]]
+    .filter(Boolean)
+    .join(' - ')
+    .replace(/[\\/:*?"<>|]/g, '_')
+
+  return fetchBook(link.href, {
+    filename: name + acquisitionExt(link),
+    fetch: (url) => opdsFetch(catalog, url),
+  })
+}
@@ -0,0 +1,153 @@
+import { IS_SERVER } from '@literal-ui/hooks'
+import { proxy, ref } from 'valtio'
+
+import { BookRecord, db, OutboxRecord } from './db'
+import { isProviderReady } from './providers'
+import { updateData } from './sync'
+
+// Changes of books are queued in the `outbox` table and uploaded in the
+// background, so that they are kept while offline or when the provider
+// fails, and retried with backoff until uploaded.
+
+const LAST_SYNC_KEY = 'last-sync-at'
+const MAX_LOG_ENTRIES = 50
+const MIN_RETRY_DELAY = 5 * 1000
+const MAX_RETRY_DELAY = 5 * 60 * 1000
+
+export interface SyncLogEntry {
+  time: number
+  type: 'synced' | 'failed' | 'offline'
+  // number of books synced
+  count?: number
+  error?: string
+}
+
+interface SyncStatus {
+  syncing: boolean
+  lastSyncAt?: number
+  lastError?: string
+  // time of the next retry after an error
+  retryAt?: number
+  log: SyncLogEntry[]
+  // merged with changes of other devices by the last sync
+  books?: BookRecord[]
+  // names of malformed books in `data.json`, see `migrateData`
+  invalidBooks?: string[]
+}
+
+export const syncStatus = proxy<SyncStatus>({
+  syncing: false,
+  lastSyncAt: IS_SERVER
+    ? undefined
+    : Number(localStorage.getItem(LAST_SYNC_KEY)) || undefined,
+  log: [],
+})
+
+let flushing = false
+let flushAgain = false
+let retries = 0
+let retryTimer: number | undefined
+
+function log(entry: Omit<SyncLogEntry, 'time'>) {
+  syncStatus.log.unshift({ ...entry, time: Date.now() })
+  syncStatus.log.splice(MAX_LOG_ENTRIES)
+}
+
+function scheduleRetry() {
+  const delay = Math.min(MIN_RETRY_DELAY * 2 ** retries, MAX_RETRY_DELAY)
+  retries++
+  clearTimeout(retryTimer)
+  retryTimer = window.setTimeout(flushOutbox, delay)
+  syncStatus.retryAt = Date.now() + delay
+}
+
+// changes of the same book are combined until uploaded
+export async function queueChanges(
+  bookId: string,
+  changes: Partial<BookRecord>,
+) {
+  if (!isProviderReady()) return
+  await db?.transaction('rw', db.outbox, async () => {
+    const record = await db?.outbox.get(bookId)
+    await db?.outbox.put({
+      bookId,
+      changes: { ...record?.changes, ...changes },
+      updatedAt: Date.now(),
+    })
+  })
+  // otherwise retried with backoff
+  if (!syncStatus.retryAt) return flushOutbox()
+}
+
+function applyChanges(books: BookRecord[], records: OutboxRecord[]) {
+  return books.map((book) => {
+    const record = records.find((r) => r.bookId === book.id)
+    return record ? { ...book, ...record.changes } : book
+  })
+}
+
+export async function flushOutbox(): Promise<void> {
+  if (flushing) {
+    flushAgain = true
+    return
+  }
+  if (!isProviderReady()) return
+  const records = (await db?.outbox.toArray()) ?? []
+  if (!records.length) return
+  if (!navigator.onLine) {
+    // flushed on `online`, see `watchOutbox`
+    if (syncStatus.log[0]?.type !== 'offline') log({ type: 'offline' })
+    return
+  }
+
+  flushing = true
+  syncStatus.syncing = true
+  clearTimeout(retryTimer)
+  try {
+    const books = await updateData((books) => applyChanges(books, records))
+
+    // keep changes queued while uploading
+    await db?.transaction('rw', db.outbox, async () => {
+      for (const { bookId, updatedAt } of records) {
+        const record = await db?.outbox.get(bookId)
+        if (record?.updatedAt === updatedAt) await db?.outbox.delete(bookId)
+      }
+    })
+
+    retries = 0
+    syncStatus.books = ref(books)
+    syncStatus.lastSyncAt = Date.now()
+    syncStatus.lastError = undefined
+    syncStatus.retryAt = undefined
+    localStorage.setItem(LAST_SYNC_KEY, String(syncStatus.lastSyncAt))
+    log({ type: 'synced', count: records.length })
+  } catch (error) {
+    console.error(error)
+    syncStatus.lastError = error instanceof Error ? error.message : undefined
+    log({ type: 'failed', error: syncStatus.lastError })
+    flushAgain = false
+    scheduleRetry()
+  } finally {
+    flushing = false
+    syncStatus.syncing = false
+  }
+
+  if (flushAgain) {
+    flushAgain = false
+    return flushOutbox()
+  }
+}
+
+// flush changes left from the last session and when back online
+export function watchOutbox() {
+  const flush = () => {
+    retries = 0
+    flushOutbox()
+  }
+  window.addEventListener('online', flush)
+  flush()
+  return () => {
+    window.removeEventListener('online', flush)
+    clearTimeout(retryTimer)
+  }
+}
@@ -0,0 +1,69 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { assertProxyUrl, proxyFetch } from '@flow/reader/proxy'
+
+// Proxy for OPDS catalogs which can not be fetched from the browser,
+// e.g. without CORS headers or over plain HTTP. Catalogs in private
+// networks have to be listed in `OPDS_PROXY_ORIGINS`, see `assertProxyUrl`.
+
+const ORIGINS = process.env.OPDS_PROXY_ORIGINS
+
+interface OpdsPayload {
+  url: string
+  username?: string
+  password?: string
+}
+
+export const config = {
+  api: {
+    // books are usually larger than the default limit of 4MB
+    responseLimit: false,
+  },
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method Not Allowed' })
+    return
+  }
+
+  const { url, username, password } = req.body as OpdsPayload
+
+  if (!url || !/^https?:\/\//i.test(url)) {
+    res.status(400).json({ error: 'Missing or invalid url' })
+    return
+  }
+  try {
+    await assertProxyUrl(url, ORIGINS)
+  } catch (error) {
+    res.status(403).json({ error: (error as Error).message })
+    return
+  }
+
+  const headers: Record<string, string> = {}
+  if (username || password) {
+    const token = Buffer.from(`${username || ''}:${password || ''}`).toString(
+      'base64',
+    )
+    headers['Authorization'] = `Basic ${token}`
+  }
+
+  try {
+    const response = await proxyFetch(url, { headers }, ORIGINS)
+
+    for (const header of ['content-type', 'content-disposition']) {
+      const value = response.headers.get(header)
+      if (value) res.setHeader(header, value)
+    }
+    res.status(response.status).send(Buffer.from(await response.arrayBuffer()))
+  } catch (error) {
+    res.status(500).json({
+      error: `OPDS request failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    })
+  }
+}
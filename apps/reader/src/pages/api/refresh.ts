@@ -1,6 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 
-import { mapToToken } from '@flow/reader/sync'
+import { mapToToken } from '@flow/reader/providers/dropbox'
 
 import { dbx } from './utils'
 
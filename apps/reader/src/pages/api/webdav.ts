@@ -0,0 +1,82 @@
+import type { NextApiRequest, NextApiResponse } from 'next'
+
+import { assertProxyUrl, proxyFetch } from '@flow/reader/proxy'
+
+// Proxy for WebDAV servers which don't send CORS headers, e.g. Nextcloud.
+// The target is passed in `X-WebDAV-URL` and the method in
+// `X-WebDAV-Method`, the body is forwarded as is. Servers in private
+// networks have to be listed in `WEBDAV_PROXY_ORIGINS`, see `assertProxyUrl`.
+
+const ORIGINS = process.env.WEBDAV_PROXY_ORIGINS
+
+const METHODS = ['GET', 'PUT', 'DELETE', 'MKCOL', 'PROPFIND']
+const FORWARDED_HEADERS = ['authorization', 'content-type', 'depth', 'if-match']
+
+export const config = {
+  api: {
+    // book files are uploaded and downloaded through the proxy
+    bodyParser: false,
+    responseLimit: false,
+  },
+}
+
+async function readBody(req: NextApiRequest) {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) chunks.push(chunk)
+  return Buffer.concat(chunks)
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse,
+) {
+  if (req.method !== 'POST') {
+    res.status(405).json({ error: 'Method Not Allowed' })
+    return
+  }
+
+  const url = req.headers['x-webdav-url']
+  const method = req.headers['x-webdav-method']
+
+  if (typeof url !== 'string' || !/^https?:\/\//i.test(url)) {
+    res.status(400).json({ error: 'Missing or invalid url' })
+    return
+  }
+  if (typeof method !== 'string' || !METHODS.includes(method)) {
+    res.status(400).json({ error: 'Missing or invalid method' })
+    return
+  }
+  try {
+    await assertProxyUrl(url, ORIGINS)
+  } catch (error) {
+    res.status(403).json({ error: (error as Error).message })
+    return
+  }
+
+  const headers: Record<string, string> = {}
+  FORWARDED_HEADERS.forEach((header) => {
+    const value = req.headers[header]
+    if (typeof value === 'string') headers[header] = value
+  })
+
+  try {
+    const body = await readBody(req)
+    const response = await proxyFetch(
+      url,
+      { method, headers, body: body.length ? body : undefined },
+      ORIGINS,
+    )
+
+    for (const header of ['content-type', 'etag', 'last-modified']) {
+      const value = response.headers.get(header)
+      if (value) res.setHeader(header, value)
+    }
+    res.status(response.status).send(Buffer.from(await response.arrayBuffer()))
+  } catch (error) {
+    res.status(500).json({
+      error: `WebDAV request failed: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+    })
+  }
+}
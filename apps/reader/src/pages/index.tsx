@@ -13,10 +13,22 @@ import {
 } from 'react-icons/md'
 import { useSet } from 'react-use'
 import { usePrevious } from 'react-use'
+import useLocalStorageState from 'use-local-storage-state'
 
-import { ReaderGridView, Button, TextField, DropZone } from '../components'
-import { BookRecord, CoverRecord, db } from '../db'
-import { addFile, fetchBook, handleFiles } from '../file'
+import {
+  ReaderGridView,
+  BackupDialog,
+  Button,
+  Chip,
+  TextField,
+  DropZone,
+  LibrarySearch,
+  MetadataEditor,
+  Select,
+} from '../components'
+import { BookRecord, CoverRecord, db, rekeyBook } from '../db'
+import { addFile, fetchBook, handleFiles, hashFile } from '../file'
+import { indexBooks, removeTexts } from '../fulltext'
 import {
   useDisablePinchZooming,
   useLibrary,
@@ -25,14 +37,33 @@ import {
   useRemoteFiles,
   useTranslation,
 } from '../hooks'
+import {
+  collectShelves,
+  collectTags,
+  filterBooks,
+  LibraryFilter,
+  LibrarySort,
+  MAX_RATING,
+  parseTags,
+  readingStatuses,
+  sortMap,
+} from '../library'
+import { mergeBooks } from '../merge'
+import { displayTitle } from '../metadata'
+import { accept } from '../mime'
 import { reader, useReaderSnapshot } from '../models'
+import { queueChanges } from '../outbox'
+import { isOffloaded } from '../storage'
 import { lock } from '../styles'
-import { dbx, pack, uploadData } from '../sync'
+import { deleteFiles, downloadFile, uploadData, uploadFile } from '../sync'
 import { copy } from '../utils'
 
 const placeholder = `data:image/svg+xml,<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1 1"><rect fill="gray" fill-opacity="0" width="1" height="1"/></svg>`
 
 const SOURCE = 'src'
+// links of exported annotations, see `deepLink`
+const BOOK = 'book'
+const CFI = 'cfi'
 
 export default function Index() {
   const { focusedTab } = useReaderSnapshot()
@@ -56,6 +87,16 @@ export default function Index() {
     ).finally(() => setLoading(false))
   }, [router.query])
 
+  useEffect(() => {
+    const id = router.query[BOOK]
+    const cfi = router.query[CFI]
+    if (typeof id !== 'string') return
+
+    db?.books.get(id).then((book) => {
+      if (book) reader.openBook(book, typeof cfi === 'string' ? cfi : undefined)
+    })
+  }, [router.query])
+
   useEffect(() => {
     if ('launchQueue' in window && 'LaunchParams' in window) {
       window.launchQueue.setConsumer((params) => {
@@ -109,8 +150,16 @@ const Library: React.FC = () => {
   const [selectedBookIds, { add, has, toggle, reset }] = useSet<string>()
 
   const [loading, setLoading] = useState<string | undefined>()
+  // books to back up, all books if `true`
+  const [backup, setBackup] = useState<BookRecord[] | true>()
   const [readyToSync, setReadyToSync] = useState(false)
 
+  const [keyword, setKeyword] = useState('')
+  const [filter, setFilter] = useState<LibraryFilter>({})
+  const [sort, setSort] = useLocalStorageState<LibrarySort>('library-sort', {
+    defaultValue: 'recently_read',
+  })
+
   const { groups } = useReaderSnapshot()
 
   useEffect(() => {
@@ -123,8 +172,10 @@ const Library: React.FC = () => {
           books.find((b) => b.name === f.name),
         ) as BookRecord[]
 
-        uploadData(newRemoteBooks)
         mutateRemoteBooks(newRemoteBooks, { revalidate: false })
+        uploadData(newRemoteBooks).then((books) =>
+          mutateRemoteBooks(books, { revalidate: false }),
+        )
       })
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -132,7 +183,33 @@ const Library: React.FC = () => {
 
   useEffect(() => {
     if (!previousRemoteBooks && remoteBooks) {
-      db?.books.bulkPut(remoteBooks).then(() => setReadyToSync(true))
+      db?.books.toArray().then(async (books) => {
+        // remote records of other devices may still use legacy uuid ids
+        const rekeyedBooks = remoteBooks.filter(Boolean).map((r) => {
+          const book = books.find((b) => b.name === r.name)
+          return book && book.id !== r.id ? rekeyBook(r, book.id) : r
+        })
+        const remoteById = new Map(rekeyedBooks.map((b) => [b.id, b]))
+        const localBooks = books.filter((b) => remoteById.has(b.id))
+
+        // the base of the last session is not kept, so changes of both
+        // sides are merged by time instead of overwritten by the remote
+        const merged = mergeBooks([], localBooks, rekeyedBooks)
+        await db?.books.bulkPut(merged)
+        setReadyToSync(true)
+
+        // changed on this device since the last upload, e.g. before signing
+        // in, queued to be retried and reported like other changes
+        localBooks.forEach((b) => {
+          const r = remoteById.get(b.id)!
+          if (
+            (b.updatedAt ?? 0) > (r.updatedAt ?? 0) ||
+            (b.progressUpdatedAt ?? 0) > (r.progressUpdatedAt ?? 0)
+          ) {
+            queueChanges(b.id, merged.find((m) => m.id === b.id)!)
+          }
+        })
+      })
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [remoteBooks])
@@ -146,15 +223,18 @@ const Library: React.FC = () => {
         if (!book) continue
 
         const file = await db?.files.get(book.id)
-        if (file) continue
+        if (file || (await isOffloaded(book.id))) continue
 
         setLoading(book.id)
-        await dbx
-          .filesDownload({ path: `/files/${remoteFile.name}` })
-          .then((d) => {
-            const blob: Blob = (d.result as any).fileBlob
-            return addFile(book.id, new File([blob], book.name))
-          })
+        await downloadFile(remoteFile.name).then(async (blob) => {
+          const file = new File([blob], book.name)
+          const id = await hashFile(file)
+          if (id !== book.id) {
+            await db?.books.put(rekeyBook(book, id))
+            await db?.books.delete(book.id)
+          }
+          return addFile(id, file)
+        })
         setLoading(undefined)
       }
     })
@@ -164,13 +244,18 @@ const Library: React.FC = () => {
     if (!select) reset()
   }, [reset, select])
 
+  useEffect(() => {
+    if (books) indexBooks(books)
+  }, [books])
+
   if (groups.length) return null
   if (!books) return null
 
+  const displayedBooks = filterBooks(books, filter).sort(sortMap[sort])
   const selectedBooks = [...selectedBookIds].map(
     (id) => books.find((b) => b.id === id)!,
   )
-  const allSelected = selectedBookIds.size === books.length
+  const allSelected = selectedBookIds.size === displayedBooks.length
 
   return (
     <DropZone
@@ -210,6 +295,17 @@ const Library: React.FC = () => {
             ]}
           />
         </div>
+        <TextField
+          name="library-search"
+          type="search"
+          placeholder={t('search')}
+          hideLabel
+          value={keyword}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+            setKeyword(e.target.value)
+          }
+          onClear={() => setKeyword('')}
+        />
         <div className="flex items-center justify-between gap-4">
           <div className="space-x-2">
             {books.length ? (
@@ -237,7 +333,7 @@ const Library: React.FC = () => {
               ) : (
                 <Button
                   variant="secondary"
-                  onClick={() => books.forEach((b) => add(b.id))}
+                  onClick={() => displayedBooks.forEach((b) => add(b.id))}
                 >
                   {t('select_all')}
                 </Button>
@@ -261,10 +357,7 @@ const Library: React.FC = () => {
                       if (!file) continue
 
                       setLoading(book.id)
-                      await dbx.filesUpload({
-                        path: `/files/${book.name}`,
-                        contents: file.file,
-                      })
+                      await uploadFile(new File([file.file], book.name))
                       setLoading(undefined)
 
                       mutateRemoteFiles()
@@ -281,15 +374,13 @@ const Library: React.FC = () => {
                     db?.books.bulkDelete(bookIds)
                     db?.covers.bulkDelete(bookIds)
                     db?.files.bulkDelete(bookIds)
+                    removeTexts(bookIds)
+                    db?.offloads.bulkDelete(bookIds)
 
                     // folder data is not updated after `filesDeleteBatch`
                     mutateRemoteFiles(
                       async (data) => {
-                        await dbx.filesDeleteBatch({
-                          entries: selectedBooks.map((b) => ({
-                            path: `/files/${b.name}`,
-                          })),
-                        })
+                        await deleteFiles(selectedBooks.map((b) => b.name))
                         return data?.filter(
                           (f) => !selectedBooks.find((b) => b.name === f.name),
                         )
@@ -300,20 +391,26 @@ const Library: React.FC = () => {
                 >
                   {t('delete')}
                 </Button>
+                <Button
+                  disabled={!selectedBooks.length}
+                  onClick={() => setBackup(selectedBooks)}
+                >
+                  {t('export')}
+                </Button>
               </>
             ) : (
               <>
                 <Button
                   variant="secondary"
                   disabled={!books.length}
-                  onClick={pack}
+                  onClick={() => setBackup(true)}
                 >
                   {t('export')}
                 </Button>
                 <Button className="relative">
                   <input
                     type="file"
-                    accept="application/epub+zip,application/epub,application/zip"
+                    accept={accept}
                     className="absolute inset-0 cursor-pointer opacity-0"
                     onChange={(e) => {
                       const files = e.target.files
@@ -327,34 +424,274 @@ const Library: React.FC = () => {
             )}
           </div>
         </div>
+        {select ? (
+          <LibraryEditBar
+            books={selectedBooks}
+            shelf={filter.shelf}
+            onShelfRemoved={() => setFilter({ ...filter, shelf: undefined })}
+          />
+        ) : (
+          <LibraryFilterBar
+            books={books}
+            filter={filter}
+            setFilter={setFilter}
+            sort={sort}
+            setSort={setSort}
+          />
+        )}
       </div>
 
+      {backup && (
+        <BackupDialog
+          books={backup === true ? undefined : backup}
+          onClose={() => setBackup(undefined)}
+        />
+      )}
+
       <div className="scroll h-full">
-        <ul
-          className="grid"
-          style={{
-            gridTemplateColumns: `repeat(auto-fill, minmax(calc(80px + 3vw), 1fr))`,
-            columnGap: lock(16, 32),
-            rowGap: lock(24, 40),
-          }}
-        >
-          {books.map((book) => (
-            <Book
-              key={book.id}
-              book={book}
-              covers={covers}
-              select={select}
-              selected={has(book.id)}
-              loading={loading === book.id}
-              toggle={toggle}
-            />
-          ))}
-        </ul>
+        {keyword ? (
+          <LibrarySearch books={books} keyword={keyword} />
+        ) : (
+          <ul
+            className="grid"
+            style={{
+              gridTemplateColumns: `repeat(auto-fill, minmax(calc(80px + 3vw), 1fr))`,
+              columnGap: lock(16, 32),
+              rowGap: lock(24, 40),
+            }}
+          >
+            {displayedBooks.map((book) => (
+              <Book
+                key={book.id}
+                book={book}
+                covers={covers}
+                select={select}
+                selected={has(book.id)}
+                loading={loading === book.id}
+                toggle={toggle}
+              />
+            ))}
+          </ul>
+        )}
       </div>
     </DropZone>
   )
 }
 
+interface LibraryFilterBarProps {
+  books: BookRecord[]
+  filter: LibraryFilter
+  setFilter: (filter: LibraryFilter) => void
+  sort: LibrarySort
+  setSort: (sort: LibrarySort) => void
+}
+const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
+  books,
+  filter,
+  setFilter,
+  sort,
+  setSort,
+}) => {
+  const t = useTranslation('home')
+  const shelves = collectShelves(books)
+  const tags = collectTags(books)
+
+  return (
+    <div className="flex items-center gap-4">
+      <div className="scroll-h flex flex-1 gap-2">
+        <Chip
+          selected={!filter.status && !filter.shelf && !filter.tag}
+          onClick={() => setFilter({})}
+        >
+          {t('all')}
+        </Chip>
+        {readingStatuses.map((status) => (
+          <Chip
+            key={status}
+            selected={filter.status === status}
+            onClick={() =>
+              setFilter({
+                ...filter,
+                status: filter.status === status ? undefined : status,
+              })
+            }
+          >
+            {t(`status.${status}`)}
+          </Chip>
+        ))}
+        {shelves.map((shelf) => (
+          <Chip
+            key={shelf}
+            selected={filter.shelf === shelf}
+            onClick={() =>
+              setFilter({
+                ...filter,
+                shelf: filter.shelf === shelf ? undefined : shelf,
+              })
+            }
+          >
+            {shelf}
+          </Chip>
+        ))}
+        {tags.map((tag) => (
+          <Chip
+            key={tag}
+            selected={filter.tag === tag}
+            onClick={() =>
+              setFilter({
+                ...filter,
+                tag: filter.tag === tag ? undefined : tag,
+              })
+            }
+          >
+            #{tag}
+          </Chip>
+        ))}
+      </div>
+      <Select
+        value={sort}
+        onChange={(e) => setSort(e.target.value as LibrarySort)}
+      >
+        {(Object.keys(sortMap) as LibrarySort[]).map((s) => (
+          <option key={s} value={s}>
+            {t(`sort.${s}`)}
+          </option>
+        ))}
+      </Select>
+    </div>
+  )
+}
+
+interface LibraryEditBarProps {
+  books: BookRecord[]
+  shelf?: string
+  onShelfRemoved: () => void
+}
+const LibraryEditBar: React.FC<LibraryEditBarProps> = ({
+  books,
+  shelf,
+  onShelfRemoved,
+}) => {
+  const t = useTranslation('home')
+  const [editing, setEditing] = useState(false)
+  const disabled = !books.length
+
+  const update = (fn: (book: BookRecord) => Partial<BookRecord>) => {
+    const updatedAt = Date.now()
+    books.forEach((b) => {
+      // for incremental backups and merging with other devices
+      const changes = { ...fn(b), updatedAt }
+      db?.books.update(b.id, changes)
+      queueChanges(b.id, changes)
+    })
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <Select
+        value=""
+        disabled={disabled}
+        onChange={(e) => {
+          // undefined for `none`, which clears the status
+          const status = readingStatuses.find((s) => s === e.target.value)
+          update(() => ({ status }))
+        }}
+      >
+        <option value="" disabled>
+          {t('status')}
+        </option>
+        {readingStatuses.map((status) => (
+          <option key={status} value={status}>
+            {t(`status.${status}`)}
+          </option>
+        ))}
+        <option value="none">{t('status.none')}</option>
+      </Select>
+      <Select
+        value=""
+        disabled={disabled}
+        onChange={(e) => {
+          const rating = Number(e.target.value) || undefined
+          update(() => ({ rating }))
+        }}
+      >
+        <option value="" disabled>
+          {t('rating')}
+        </option>
+        {Array.from({ length: MAX_RATING + 1 }, (_, i) => (
+          <option key={i} value={i}>
+            {i ? '★'.repeat(i) : t('rating.none')}
+          </option>
+        ))}
+      </Select>
+      <Button
+        variant="secondary"
+        compact
+        disabled={disabled}
+        onClick={() => {
+          const name = window.prompt(t('shelf.add'))?.trim()
+          if (!name) return
+          update((b) => ({
+            shelves: [...new Set([...(b.shelves ?? []), name])],
+          }))
+        }}
+      >
+        {t('shelf.add')}
+      </Button>
+      {shelf && (
+        <Button
+          variant="secondary"
+          compact
+          disabled={disabled}
+          onClick={() => {
+            update((b) => ({
+              shelves: b.shelves?.filter((s) => s !== shelf),
+            }))
+            onShelfRemoved()
+          }}
+        >
+          {t('shelf.remove').replace('{shelf}', shelf)}
+        </Button>
+      )}
+      <Button
+        variant="secondary"
+        compact
+        disabled={disabled}
+        onClick={() => {
+          const tags = parseTags(window.prompt(t('tags.add')) ?? '')
+          if (!tags.length) return
+          update((b) => ({ tags: [...new Set([...(b.tags ?? []), ...tags])] }))
+        }}
+      >
+        {t('tags.add')}
+      </Button>
+      <Button
+        variant="secondary"
+        compact
+        disabled={disabled}
+        onClick={() => update(() => ({ tags: [] }))}
+      >
+        {t('tags.clear')}
+      </Button>
+      <Button
+        variant="secondary"
+        compact
+        disabled={books.length !== 1}
+        onClick={() => setEditing(true)}
+      >
+        {t('metadata.edit')}
+      </Button>
+      {editing && books[0] && (
+        <MetadataEditor
+          book={books[0]}
+          onSave={(metadataOverrides) => update(() => ({ metadataOverrides }))}
+          onClose={() => setEditing(false)}
+        />
+      )}
+    </div>
+  )
+}
+
 interface BookProps {
   book: BookRecord
   covers?: CoverRecord[]
@@ -375,8 +712,12 @@ const Book: React.FC<BookProps> = ({
 
   const router = useRouter()
   const mobile = useMobile()
+  const t = useTranslation('home')
 
-  const cover = covers?.find((c) => c.id === book.id)?.cover
+  const cover =
+    book.metadataOverrides?.cover ??
+    covers?.find((c) => c.id === book.id)?.cover
+  const title = displayTitle(book)
   const remoteFile = remoteFiles.data?.find((f) => f.name === book.name)
 
   const Icon = selected ? MdCheckBox : MdCheckBoxOutlineBlank
@@ -427,7 +768,7 @@ const Book: React.FC<BookProps> = ({
 
       <div
         className="line-clamp-2 text-on-surface-variant typescale-body-small lg:typescale-body-medium mt-2 w-full"
-        title={book.name}
+        title={title}
       >
         <MdCheckCircle
           className={clsx(
@@ -436,8 +777,20 @@ const Book: React.FC<BookProps> = ({
           )}
           size={16}
         />
-        {book.name}
+        {title}
       </div>
+      {(book.status || book.rating) && (
+        <div className="typescale-body-small text-outline mt-0.5 flex justify-between gap-1">
+          <span className="truncate">
+            {book.status && t(`status.${book.status}`)}
+          </span>
+          {book.rating && (
+            <span className="text-tertiary shrink-0">
+              {'★'.repeat(book.rating)}
+            </span>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,102 @@
+import { Dropbox, DropboxResponseError } from 'dropbox'
+import type { files } from 'dropbox'
+import { parseCookies } from 'nookies'
+
+import { ConflictError, NotFoundError, RemoteFile, SyncProvider } from './types'
+
+export const mapToToken = {
+  dropbox: 'dropbox-refresh-token',
+}
+
+const dbx = new Dropbox({
+  clientId: process.env.NEXT_PUBLIC_DROPBOX_CLIENT_ID,
+  refreshToken: '__fake_token__',
+})
+let _req: Promise<void> | undefined
+dbx.auth.refreshAccessToken = () => {
+  const cookies = parseCookies()
+  const refreshToken = cookies[mapToToken['dropbox']]
+  if (!refreshToken) {
+    // `reject` to skip subsequent api requests
+    return Promise.reject()
+  }
+  _req ??= fetch(`/api/refresh`)
+    .then((res) => res.json())
+    .then((data) => {
+      dbx.auth.setAccessToken(data.accessToken)
+      dbx.auth.setAccessTokenExpiresAt(data.accessTokenExpiresAt)
+    })
+    .finally(() => {
+      // will fail if no refresh token
+      _req = undefined
+    })
+  return _req
+}
+
+// e.g. `path/not_found/..` or `path/conflict/file/..`
+function isError(error: unknown, summary: string) {
+  return (
+    error instanceof DropboxResponseError &&
+    error.status === 409 &&
+    String(error.error?.error_summary).startsWith(summary)
+  )
+}
+
+function toFile(entry: files.ListFolderResult['entries'][number]) {
+  if (entry['.tag'] !== 'file') return
+  const file: RemoteFile = {
+    name: entry.name,
+    size: entry.size,
+    modifiedAt: Date.parse(entry.server_modified),
+    rev: entry.rev,
+  }
+  return file
+}
+
+export const dropbox: SyncProvider = {
+  async list(folder) {
+    try {
+      let { result } = await dbx.filesListFolder({ path: `/${folder}` })
+      const entries = [...result.entries]
+      while (result.has_more) {
+        ;({ result } = await dbx.filesListFolderContinue({
+          cursor: result.cursor,
+        }))
+        entries.push(...result.entries)
+      }
+      return entries.map(toFile).filter((f): f is RemoteFile => !!f)
+    } catch (error) {
+      // the folder is created on the first upload
+      if (isError(error, 'path/not_found')) return []
+      throw error
+    }
+  },
+  async read(path) {
+    try {
+      const { result } = await dbx.filesDownload({ path: `/${path}` })
+      return { data: (result as any).fileBlob, rev: result.rev }
+    } catch (error) {
+      if (isError(error, 'path/not_found')) throw new NotFoundError(path)
+      throw error
+    }
+  },
+  async write(path, contents, rev) {
+    try {
+      const { result } = await dbx.filesUpload({
+        path: `/${path}`,
+        mode: rev ? { '.tag': 'update', update: rev } : { '.tag': 'overwrite' },
+        contents,
+      })
+      return result.rev
+    } catch (error) {
+      if (isError(error, 'path/conflict')) throw new ConflictError(path)
+      throw error
+    }
+  },
+  async delete(paths) {
+    if (!paths.length) return
+    await dbx.filesDeleteBatch({
+      entries: paths.map((path) => ({ path: `/${path}` })),
+    })
+  },
+}
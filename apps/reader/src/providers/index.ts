@@ -0,0 +1,44 @@
+import { parseCookies } from 'nookies'
+
+import { getSettings, Settings } from '../state'
+import { webdavConfig } from '../webdav'
+
+import { dropbox, mapToToken } from './dropbox'
+import { local, localFolder } from './local'
+import { SyncProvider } from './types'
+import { webdav } from './webdav'
+
+export * from './types'
+
+export const syncProviders = { dropbox, webdav, local }
+
+export type SyncProviderName = keyof typeof syncProviders
+
+export const syncProviderNames = Object.keys(
+  syncProviders,
+) as SyncProviderName[]
+
+export function syncProviderName(
+  settings: Settings = getSettings(),
+): SyncProviderName {
+  // WebDAV was used if configured, before providers could be selected
+  return (
+    settings.syncProvider ?? (webdavConfig(settings) ? 'webdav' : 'dropbox')
+  )
+}
+
+// signed in to or set up, otherwise nothing is synced
+export function isProviderReady(settings: Settings = getSettings()) {
+  switch (syncProviderName(settings)) {
+    case 'dropbox':
+      return !!parseCookies()[mapToToken['dropbox']]
+    case 'webdav':
+      return !!webdavConfig(settings)
+    case 'local':
+      return !!localFolder.handle
+  }
+}
+
+export function getProvider(settings?: Settings): SyncProvider {
+  return syncProviders[syncProviderName(settings)]
+}
@@ -0,0 +1,101 @@
+import { proxy, ref } from 'valtio'
+
+import { ConflictError, NotFoundError, RemoteFile, SyncProvider } from './types'
+
+// A folder on this device picked with the File System Access API, mainly to
+// test syncing without an account. The permission is not persisted, so the
+// folder has to be chosen again after reloading.
+
+export const localFolder = proxy<{ handle?: FileSystemDirectoryHandle }>({})
+
+export async function chooseLocalFolder() {
+  if (!window.showDirectoryPicker) {
+    throw new Error('Local folders are not supported by this browser')
+  }
+  const handle = await window.showDirectoryPicker({ mode: 'readwrite' })
+  localFolder.handle = ref(handle)
+}
+
+function root() {
+  const { handle } = localFolder
+  if (!handle) throw new Error('No local folder is chosen')
+  return handle
+}
+
+function isNotFound(error: unknown) {
+  return error instanceof DOMException && error.name === 'NotFoundError'
+}
+
+// the folder containing `path` and the name of the file in it
+async function resolve(path: string, create = false) {
+  const parts = path.split('/')
+  const name = parts.pop()!
+  let dir = root()
+  for (const part of parts) {
+    dir = await dir.getDirectoryHandle(part, { create })
+  }
+  return { dir, name }
+}
+
+async function getFile(path: string) {
+  const { dir, name } = await resolve(path)
+  return (await dir.getFileHandle(name)).getFile()
+}
+
+export const local: SyncProvider = {
+  async list(folder) {
+    const files: RemoteFile[] = []
+    try {
+      let dir = root()
+      for (const part of folder.split('/').filter(Boolean)) {
+        dir = await dir.getDirectoryHandle(part)
+      }
+      for await (const handle of dir.values()) {
+        if (handle.kind !== 'file') continue
+        const file = await handle.getFile()
+        files.push({
+          name: file.name,
+          size: file.size,
+          modifiedAt: file.lastModified,
+          rev: String(file.lastModified),
+        })
+      }
+    } catch (error) {
+      // the folder is created on the first upload
+      if (!isNotFound(error)) throw error
+    }
+    return files
+  },
+  async read(path) {
+    try {
+      const file = await getFile(path)
+      return { data: file, rev: String(file.lastModified) }
+    } catch (error) {
+      if (isNotFound(error)) throw new NotFoundError(path)
+      throw error
+    }
+  },
+  async write(path, data, rev) {
+    if (rev) {
+      const current = await getFile(path).catch(() => undefined)
+      if (String(current?.lastModified) !== rev) throw new ConflictError(path)
+    }
+
+    const { dir, name } = await resolve(path, true)
+    const handle = await dir.getFileHandle(name, { create: true })
+    const writable = await handle.createWritable()
+    await writable.write(data)
+    await writable.close()
+    return String((await handle.getFile()).lastModified)
+  },
+  async delete(paths) {
+    for (const path of paths) {
+      try {
+        const { dir, name } = await resolve(path)
+        await dir.removeEntry(name)
+      } catch (error) {
+        if (!isNotFound(error)) throw error
+      }
+    }
+  },
+}
@@ -0,0 +1,45 @@
+export interface RemoteFile {
+  name: string
+  size?: number
+  modifiedAt?: number
+  // changes whenever the file is written
+  rev?: string
+}
+
+export interface RemoteData {
+  data: Blob
+  rev?: string
+}
+
+// A backend the library is synced with. Paths are relative to the root of
+// the library, e.g. `data.json` or `files/book.epub`.
+export interface SyncProvider {
+  // files in `folder`, an empty list if it doesn't exist
+  list(folder: string): Promise<RemoteFile[]>
+  // throws `NotFoundError` if the file doesn't exist
+  read(path: string): Promise<RemoteData>
+  // overwrite the file, unless `rev` is given and the remote file has
+  // another revision, see `ConflictError`, returns the new revision
+  write(
+    path: string,
+    data: Blob | string,
+    rev?: string,
+  ): Promise<string | undefined>
+  delete(paths: string[]): Promise<void>
+}
+
+// the file was written by another device since it was read
+export class ConflictError extends Error {
+  constructor(readonly path: string) {
+    super(`${path} was changed on the remote`)
+    this.name = 'ConflictError'
+  }
+}
+
+// the file doesn't exist on the remote, unlike other failures of reading it
+export class NotFoundError extends Error {
+  constructor(readonly path: string) {
+    super(`${path} was not found on the remote`)
+    this.name = 'NotFoundError'
+  }
+}
@@ -0,0 +1,34 @@
+import {
+  WebdavConfig,
+  webdavConfig,
+  webdavDelete,
+  webdavGet,
+  webdavList,
+  webdavPut,
+} from '../webdav'
+
+import { SyncProvider } from './types'
+
+function config(): WebdavConfig {
+  const config = webdavConfig()
+  if (!config) throw new Error('WebDAV library folder is not configured')
+  return config
+}
+
+export const webdav: SyncProvider = {
+  async list(folder) {
+    const files = await webdavList(config(), folder)
+    return files.map(({ etag, ...file }) => ({ ...file, rev: etag }))
+  },
+  async read(path) {
+    const { data, etag } = await webdavGet(config(), path)
+    return { data, rev: etag }
+  },
+  write(path, data, rev) {
+    return webdavPut(config(), path, data, rev)
+  },
+  async delete(paths) {
+    const c = config()
+    for (const path of paths) await webdavDelete(c, path)
+  },
+}
@@ -0,0 +1,115 @@
+import { promises as dns } from 'dns'
+import { isIP } from 'net'
+
+// Checks of the URLs fetched by the proxies in `pages/api`, so that they
+// can't be used to reach the network of the server. Only public addresses
+// are allowed, unless origins are listed in an environment variable, e.g.
+// `WEBDAV_PROXY_ORIGINS=http://192.168.1.2:8080`, which are then the only
+// ones allowed, private or not.
+
+const MAX_REDIRECTS = 5
+
+function allowedOrigins(origins?: string) {
+  return (
+    origins
+      ?.split(',')
+      .map((o) => o.trim())
+      .filter(Boolean)
+      .map((o) => new URL(o).origin) ?? []
+  )
+}
+
+function isPrivateIPv4(address: string) {
+  const [a = 0, b = 0] = address.split('.').map(Number)
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    // carrier-grade NAT
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    // multicast and reserved
+    a >= 224
+  )
+}
+
+function isPrivateAddress(address: string) {
+  if (isIP(address) === 4) return isPrivateIPv4(address)
+
+  const ip = address.toLowerCase()
+  // IPv4-mapped, e.g. `::ffff:127.0.0.1` or `::ffff:7f00:1`
+  const dotted = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) return isPrivateIPv4(dotted[1]!)
+  const hex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/)
+  if (hex) {
+    const [high, low] = [parseInt(hex[1]!, 16), parseInt(hex[2]!, 16)]
+    return isPrivateIPv4(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join('.'),
+    )
+  }
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    // unique local and link-local
+    /^f[cd]/.test(ip) ||
+    /^fe[89ab]/.test(ip)
+  )
+}
+
+// throws if `url` may not be fetched, see `allowedOrigins`
+export async function assertProxyUrl(url: string, origins?: string) {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    throw new Error('Invalid url')
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new Error('Invalid url')
+  }
+
+  const allowed = allowedOrigins(origins)
+  if (allowed.includes(parsed.origin)) return
+  if (allowed.length) throw new Error(`${parsed.origin} is not allowed`)
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  const addresses = isIP(host)
+    ? [host]
+    : (await dns.lookup(host, { all: true })).map((a) => a.address)
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${parsed.hostname} is a private address`)
+  }
+}
+
+// `fetch` checking the url and the locations it redirects to
+export async function proxyFetch(
+  url: string,
+  init: RequestInit,
+  origins?: string,
+) {
+  let headers = init.headers as Record<string, string> | undefined
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    await assertProxyUrl(url, origins)
+    const res = await fetch(url, { ...init, headers, redirect: 'manual' })
+    const location = res.headers.get('location')
+    // requests with bodies are not redirected
+    if (res.status < 300 || res.status >= 400 || !location || init.body) {
+      return res
+    }
+
+    const next = new URL(location, url)
+    // credentials are only sent to the origin they are for
+    if (next.origin !== new URL(url).origin && headers) {
+      headers = Object.fromEntries(
+        Object.entries(headers).filter(
+          ([name]) => name.toLowerCase() !== 'authorization',
+        ),
+      )
+    }
+    url = next.href
+  }
+  throw new Error('Too many redirects')
+}
@@ -0,0 +1,71 @@
+import { proxy, ref } from 'valtio'
+
+import { BookRecord, CoverRecord, db, FileRecord, mergeBook } from './db'
+
+// Restoring a backup is previewed in `RestoreDialog` and applied per book,
+// so that a backup doesn't overwrite progress and annotations made since.
+
+export type RestoreAction = 'merge' | 'replace' | 'skip'
+
+export const restoreActions: RestoreAction[] = ['merge', 'replace', 'skip']
+
+export interface Backup {
+  books: BookRecord[]
+  covers: CoverRecord[]
+  files: FileRecord[]
+  // names of malformed books, which are not restored
+  invalid?: string[]
+}
+
+export interface RestoreItem {
+  book: BookRecord
+  // the book in the library, if any
+  local?: BookRecord
+}
+
+export const restoreState = proxy<{ backup?: Backup }>({})
+
+// show `RestoreDialog` for the backup
+export function previewRestore(backup: Backup) {
+  restoreState.backup = ref(backup)
+}
+
+export async function restoreItems(backup: Backup) {
+  const locals = await db?.books.bulkGet(backup.books.map((b) => b.id))
+  return backup.books.map(
+    (book, i): RestoreItem => ({ book, local: locals?.[i] }),
+  )
+}
+
+export function defaultRestoreAction({ local }: RestoreItem): RestoreAction {
+  return local ? 'merge' : 'replace'
+}
+
+// the book after restoring, `undefined` if left untouched
+export function restoredBook(
+  { book, local }: RestoreItem,
+  action: RestoreAction,
+) {
+  if (action === 'skip') return
+  if (action === 'replace' || !local) return book
+  return mergeBook(local, book)
+}
+
+export async function restoreBackup(
+  backup: Backup,
+  items: RestoreItem[],
+  actions: Record<string, RestoreAction>,
+) {
+  const books = items
+    .map((item) =>
+      restoredBook(item, actions[item.book.id] ?? defaultRestoreAction(item)),
+    )
+    .filter((b): b is BookRecord => !!b)
+  const ids = new Set(books.map((b) => b.id))
+  const files = backup.files.filter((f) => ids.has(f.id))
+
+  await db?.books.bulkPut(books)
+  await db?.covers.bulkPut(backup.covers.filter((c) => ids.has(c.id)))
+  await db?.files.bulkPut(files)
+  await db?.offloads.bulkDelete(files.map((f) => f.id))
+}
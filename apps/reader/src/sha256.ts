@@ -0,0 +1,95 @@
+// SHA-256 for insecure contexts, e.g. served over http in the LAN, where
+// `crypto.subtle` is not available, see `hashFile`.
+// https://nvlpubs.nist.gov/nistpubs/FIPS/NIST.FIPS.180-4.pdf
+
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+])
+
+const H = new Uint32Array([
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+])
+
+function rotr(x: number, n: number) {
+  return (x >>> n) | (x << (32 - n))
+}
+
+// process the 64-byte block at `offset`
+function block(h: Uint32Array, w: Uint32Array, view: DataView, offset: number) {
+  for (let i = 0; i < 16; i++) w[i] = view.getUint32(offset + i * 4)
+  for (let i = 16; i < 64; i++) {
+    const x = w[i - 15]!
+    const y = w[i - 2]!
+    const s0 = rotr(x, 7) ^ rotr(x, 18) ^ (x >>> 3)
+    const s1 = rotr(y, 17) ^ rotr(y, 19) ^ (y >>> 10)
+    w[i] = w[i - 16]! + s0 + w[i - 7]! + s1
+  }
+
+  let a = h[0]!
+  let b = h[1]!
+  let c = h[2]!
+  let d = h[3]!
+  let e = h[4]!
+  let f = h[5]!
+  let g = h[6]!
+  let k = h[7]!
+  for (let i = 0; i < 64; i++) {
+    const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25)
+    const t1 = (k + s1 + ((e & f) ^ (~e & g)) + K[i]! + w[i]!) | 0
+    const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22)
+    const t2 = (s0 + ((a & b) ^ (a & c) ^ (b & c))) | 0
+    k = g
+    g = f
+    f = e
+    e = (d + t1) | 0
+    d = c
+    c = b
+    b = a
+    a = (t1 + t2) | 0
+  }
+
+  h[0] = h[0]! + a
+  h[1] = h[1]! + b
+  h[2] = h[2]! + c
+  h[3] = h[3]! + d
+  h[4] = h[4]! + e
+  h[5] = h[5]! + f
+  h[6] = h[6]! + g
+  h[7] = h[7]! + k
+}
+
+export function sha256(data: Uint8Array) {
+  const h = H.slice()
+  const w = new Uint32Array(64)
+
+  // full blocks are read in place, large files are not copied
+  const full = data.length - (data.length % 64)
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  for (let i = 0; i < full; i += 64) block(h, w, view, i)
+
+  // the rest, padded with 0x80, zeros and the length in bits
+  const tail = new Uint8Array(data.length - full < 56 ? 64 : 128)
+  tail.set(data.subarray(full))
+  tail[data.length - full] = 0x80
+  const tailView = new DataView(tail.buffer)
+  const bits = data.length * 8
+  tailView.setUint32(tail.length - 8, Math.floor(bits / 2 ** 32))
+  tailView.setUint32(tail.length - 4, bits >>> 0)
+  for (let i = 0; i < tail.length; i += 64) block(h, w, tailView, i)
+
+  const digest = new Uint8Array(32)
+  const digestView = new DataView(digest.buffer)
+  h.forEach((x, i) => digestView.setUint32(i * 4, x))
+  return digest
+}
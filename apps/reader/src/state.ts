@@ -3,6 +3,9 @@ import { atom, AtomEffect, useRecoilState } from 'recoil'
 
 import { RenditionSpread } from '@flow/epubjs/types/rendition'
 
+import type { AnnotationColorOption } from './annotation'
+import type { OpdsCatalog } from './opds'
+
 function localStorageEffect<T>(key: string, defaultValue: T): AtomEffect<T> {
   return ({ setSelf, onSet }) => {
     if (IS_SERVER) return
@@ -37,8 +40,16 @@ export interface Settings extends TypographyConfiguration {
   webdavUrl?: string
   webdavUsername?: string
   webdavPassword?: string
+  // folder of the library, e.g. https://example.com/dav/flow/
+  webdavLibraryUrl?: string
+  // backend the library is synced with, see `syncProviderName`
+  syncProvider?: 'dropbox' | 'webdav' | 'local'
   // Global font size (px) for vocabulary tooltip popup
   vocabTooltipFontSize?: number
+  // colors of annotations, see `useAnnotationColors`
+  annotationColors?: AnnotationColorOption[]
+  // Markdown of each exported annotation, see `renderTemplate`
+  annotationTemplate?: string
 }
 
 export interface TypographyConfiguration {
@@ -50,6 +61,13 @@ export interface TypographyConfiguration {
   zoom?: number
 }
 
+export interface ComicConfiguration {
+  // fit the whole page, or the width of the pane and scroll vertically
+  fit?: 'page' | 'width'
+  // right to left, e.g. manga
+  rtl?: boolean
+}
+
 interface ThemeConfiguration {
   source?: string
   background?: number
@@ -82,6 +100,13 @@ export function useSettings() {
   return useRecoilState(settingsState)
 }
 
+// for modules outside React, kept in sync by `localStorageEffect`
+export function getSettings(): Settings {
+  if (IS_SERVER) return defaultSettings
+  const savedValue = localStorage.getItem('settings')
+  return savedValue ? JSON.parse(savedValue) : defaultSettings
+}
+
 export type AiSidebarMode = 'dictionary' | 'ai' | 'vocab'
 
 export interface AiConfig {
@@ -144,3 +169,13 @@ const aiState = atom<AiState>({
 export function useAiState() {
   return useRecoilState(aiState)
 }
+
+const opdsCatalogsState = atom<OpdsCatalog[]>({
+  key: 'opds-catalogs',
+  default: [],
+  effects: [localStorageEffect<OpdsCatalog[]>('opds-catalogs', [])],
+})
+
+export function useOpdsCatalogs() {
+  return useRecoilState(opdsCatalogsState)
+}
@@ -0,0 +1,103 @@
+import { BookRecord, db } from './db'
+import { hashFile } from './file'
+import { downloadFile } from './sync'
+
+// Books can be offloaded to free up space: the file is deleted while the
+// `BookRecord` with progress and annotations is kept. The file is restored
+// from the cloud, or provided again by the user, when the book is opened.
+
+export interface BookUsage {
+  id: string
+  // 0 if offloaded or not downloaded
+  file: number
+  cover: number
+  annotations: number
+  offloaded: boolean
+}
+
+function byteLength(text?: string | null) {
+  return text ? new Blob([text]).size : 0
+}
+
+export async function bookUsages(books: BookRecord[]) {
+  const [files, covers, offloads] = await Promise.all([
+    db?.files.toArray(),
+    db?.covers.toArray(),
+    db?.offloads.toCollection().primaryKeys(),
+  ])
+
+  return books.map((book): BookUsage => {
+    const file = files?.find((f) => f.id === book.id)
+    const cover = covers?.find((c) => c.id === book.id)
+    return {
+      id: book.id,
+      file: file?.file.size ?? 0,
+      cover:
+        byteLength(cover?.cover) + byteLength(book.metadataOverrides?.cover),
+      annotations: byteLength(JSON.stringify(book.annotations)),
+      // books synced from the cloud but never downloaded are not offloaded
+      offloaded: !!offloads?.includes(book.id),
+    }
+  })
+}
+
+export function totalUsage(usage: BookUsage) {
+  return usage.file + usage.cover + usage.annotations
+}
+
+export function formatBytes(bytes: number) {
+  const units = ['B', 'KB', 'MB', 'GB']
+  let i = 0
+  while (bytes >= 1024 && i < units.length - 1) {
+    bytes /= 1024
+    i++
+  }
+  return `${bytes.toFixed(i ? 1 : 0)} ${units[i]}`
+}
+
+export async function estimateStorage() {
+  return navigator.storage?.estimate?.()
+}
+
+export async function isStoragePersisted() {
+  return (await navigator.storage?.persisted?.()) ?? false
+}
+
+// without it, the browser may evict the whole library under storage pressure
+export async function persistStorage() {
+  return (await navigator.storage?.persist?.()) ?? false
+}
+
+export async function offloadBook(id: string) {
+  return db?.transaction('rw', [db.files, db.offloads], async () => {
+    await db?.files.delete(id)
+    await db?.offloads.put({ id, offloadedAt: Date.now() })
+  })
+}
+
+export async function isOffloaded(id: string) {
+  return !!(await db?.offloads.get(id))
+}
+
+// store the file of an offloaded book, `false` if the content differs
+export async function attachFile(book: BookRecord, file: File) {
+  if ((await hashFile(file)) !== book.id) return false
+
+  await db?.files.put({ id: book.id, file: new File([file], book.name) })
+  await db?.offloads.delete(book.id)
+  return true
+}
+
+async function downloadFromCloud(book: BookRecord) {
+  try {
+    return new File([await downloadFile(book.name)], book.name)
+  } catch {
+    // not uploaded, or not logged in
+  }
+}
+
+// try to restore the file of an offloaded book from the cloud
+export async function restoreFile(book: BookRecord) {
+  const file = await downloadFromCloud(book)
+  if (file && (await attachFile(book, file))) return file
+}
@@ -1,110 +1,203 @@
-import { Dropbox } from 'dropbox'
 import { saveAs } from 'file-saver'
 import JSZip from 'jszip'
-import { parseCookies } from 'nookies'
 
-import { BookRecord, db } from './db'
-import { readBlob } from './file'
+import { BookRecord, CoverRecord, db, FileRecord, rekeyBook } from './db'
+import { seal, setPassphrase, unseal } from './encryption'
+import { hashFile, readBlob } from './file'
+import { mergeBooks } from './merge'
+import { InvalidBook, migrateData, VERSION } from './migrations'
+import { syncStatus } from './outbox'
+import {
+  ConflictError,
+  getProvider,
+  isProviderReady,
+  NotFoundError,
+  RemoteData,
+  SyncProviderName,
+  syncProviderName,
+} from './providers'
+import { previewRestore } from './restore'
 
-export const mapToToken = {
-  dropbox: 'dropbox-refresh-token',
+export const OAUTH_SUCCESS_MESSAGE = 'oauth_success'
+
+export const DATA_FILENAME = 'data.json'
+
+function serializeData(books: BookRecord[] = [], invalid: InvalidBook[] = []) {
+  return seal(
+    JSON.stringify({
+      version: VERSION,
+      dbVersion: db?.verno,
+      books: [...books, ...invalid.map((b) => b.record)],
+    }),
+  )
 }
 
-export const OAUTH_SUCCESS_MESSAGE = 'oauth_success'
+async function deserializeData(text: string) {
+  return migrateData(JSON.parse(await unseal(text)))
+}
 
-export const dbx = new Dropbox({
-  clientId: process.env.NEXT_PUBLIC_DROPBOX_CLIENT_ID,
-  refreshToken: '__fake_token__',
-})
-let _req: Promise<void> | undefined
-dbx.auth.refreshAccessToken = () => {
-  const cookies = parseCookies()
-  const refreshToken = cookies[mapToToken['dropbox']]
-  if (!refreshToken) {
-    // `reject` to skip subsequent api requests
-    return Promise.reject()
-  }
-  _req ??= fetch(`/api/refresh`)
-    .then((res) => res.json())
-    .then((data) => {
-      dbx.auth.setAccessToken(data.accessToken)
-      dbx.auth.setAccessTokenExpiresAt(data.accessTokenExpiresAt)
-    })
-    .finally(() => {
-      // will fail if no refresh token
-      _req = undefined
-    })
-  return _req
-}
-
-interface SerializedBooks {
-  version: number
-  dbVersion: number
+interface Data {
   books: BookRecord[]
+  // skipped, but not removed from the remote
+  invalid: InvalidBook[]
+  rev?: string
 }
 
-const VERSION = 1
-export const DATA_FILENAME = 'data.json'
+// `data.json` as of the last sync with the provider, see `mergeBooks`
+let base: (Data & { provider: SyncProviderName }) | undefined
+// uploads are chained, otherwise they would conflict with each other
+let uploading: Promise<unknown> = Promise.resolve()
 
-function serializeData(books?: BookRecord[]) {
-  return JSON.stringify({
-    version: VERSION,
-    dbVersion: db?.verno,
-    books,
-  })
-}
+const MAX_RETRIES = 3
 
-function deserializeData(text: string) {
-  const { version, dbVersion, books } = JSON.parse(text) as SerializedBooks
+async function parseData({ data, rev }: RemoteData): Promise<Data> {
+  const text = await readBlob((r) => r.readAsText(data))
+  const { books, invalid } = await deserializeData(text)
+  syncStatus.invalidBooks = invalid.map((b) => b.name)
+  return { books, invalid, rev }
+}
 
-  if (version < VERSION) {
-    // migrate `data.json`
+// undefined if `data.json` doesn't exist yet, other failures are thrown,
+// otherwise the remote books would be taken as deleted
+async function readData() {
+  try {
+    return await parseData(await getProvider().read(DATA_FILENAME))
+  } catch (error) {
+    if (error instanceof NotFoundError) return
+    throw error
   }
-  if (db && dbVersion < db.verno) {
-    // migrate `BookRecord`
+}
+
+// `books` were changed from `synced`, while `base` may be newer if written
+// by preceding uploads
+async function writeData(books: BookRecord[], synced: typeof base) {
+  const provider = syncProviderName()
+  const origin = synced?.provider === provider ? synced : undefined
+  let remote: Data | undefined = base?.provider === provider ? base : undefined
+
+  for (let i = 0; ; i++) {
+    // the remote revision is unknown, e.g. not returned by the server
+    if (!remote?.rev) remote = await readData()
+
+    const merged = mergeBooks(origin?.books ?? [], books, remote?.books ?? [])
+    try {
+      const rev = await getProvider().write(
+        DATA_FILENAME,
+        await serializeData(merged, remote?.invalid),
+        remote?.rev,
+      )
+      base = { provider, books: merged, invalid: remote?.invalid ?? [], rev }
+      return merged
+    } catch (error) {
+      // written by another device since the last sync, merge again
+      if (!(error instanceof ConflictError) || i >= MAX_RETRIES) throw error
+      remote = await parseData(await getProvider().read(DATA_FILENAME))
+    }
   }
+}
 
-  return books
+// upload `books` merged with changes of other devices, which are included
+// in the returned books
+export function uploadData(books: BookRecord[]) {
+  const synced = base
+  return chain(() => writeData(books, synced))
 }
 
-export async function uploadData(books: BookRecord[]) {
-  return dbx.filesUpload({
-    path: `/${DATA_FILENAME}`,
-    mode: { '.tag': 'overwrite' },
-    contents: serializeData(books),
+// like `uploadData`, with `update` applied to the books of the last sync,
+// which are fetched if not synced yet
+export function updateData(update: (books: BookRecord[]) => BookRecord[]) {
+  return chain(async () => {
+    const provider = syncProviderName()
+    if (base?.provider !== provider) {
+      const data = await readData()
+      base = data && { ...data, provider }
+    }
+    return writeData(update(base?.books ?? []), base)
   })
 }
 
-export const dropboxFilesFetcher = (path: string) => {
-  return dbx.filesListFolder({ path }).then((d) => d.result.entries)
+function chain<T>(fn: () => Promise<T>) {
+  const upload = uploading.then(fn)
+  uploading = upload.catch(() => undefined)
+  return upload
+}
+
+export async function remoteFilesFetcher() {
+  return getProvider().list('files')
 }
 
-export const dropboxBooksFetcher = (path: string) => {
-  return dbx
-    .filesDownload({ path })
-    .then((d) => {
-      const blob: Blob = (d.result as any).fileBlob
-      return readBlob((r) => r.readAsText(blob))
-    })
-    .then((d) => deserializeData(d))
+export async function remoteBooksFetcher() {
+  const provider = syncProviderName()
+  const data = await parseData(await getProvider().read(DATA_FILENAME))
+  base = { ...data, provider }
+  return data.books
 }
 
-export async function pack() {
-  const books = await db?.books.toArray()
-  const covers = await db?.covers.toArray()
-  const files = await db?.files.toArray()
+export async function uploadFile(file: File) {
+  return getProvider().write(`files/${file.name}`, file)
+}
+
+export async function downloadFile(name: string) {
+  return (await getProvider().read(`files/${name}`)).data
+}
+
+export async function deleteFiles(names: string[]) {
+  return getProvider().delete(names.map((name) => `files/${name}`))
+}
+
+export interface PackOptions {
+  // all books if undefined
+  bookIds?: string[]
+  // include book files, otherwise only records and covers are backed up
+  files?: boolean
+  // only books added or read since the timestamp
+  since?: number
+}
+
+// re-encrypt `data.json` with the new passphrase, or decrypt it if removed
+export async function changePassphrase(passphrase?: string) {
+  // read with the current passphrase, failures abort the change, otherwise
+  // `data.json` would be left encrypted with a key no longer known
+  let books: BookRecord[] | undefined
+  if (isProviderReady()) {
+    const data = await readData()
+    if (data) base = { ...data, provider: syncProviderName() }
+    books = data?.books
+  }
+  await setPassphrase(passphrase)
+  if (books) await uploadData(books)
+}
+
+export async function pack({
+  bookIds,
+  files: includeFiles = true,
+  since,
+}: PackOptions = {}) {
+  const books = (await db?.books.toArray())?.filter(
+    (b) =>
+      (!bookIds || bookIds.includes(b.id)) &&
+      (!since || (b.updatedAt ?? b.createdAt) > since),
+  )
+  const ids = books?.map((b) => b.id) ?? []
+  const covers = await db?.covers.bulkGet(ids)
+  const files = includeFiles ? await db?.files.bulkGet(ids) : []
 
   const zip = new JSZip()
-  zip.file(DATA_FILENAME, serializeData(books))
-  zip.file('covers.json', JSON.stringify(covers))
+  zip.file(DATA_FILENAME, await serializeData(books))
+  // book files are left unencrypted, notes are only in `data.json`
+  zip.file('covers.json', await seal(JSON.stringify(covers?.filter(Boolean))))
 
   const folder = zip.folder('files')
-  files?.forEach((f) => folder?.file(f.file.name, f.file))
+  files?.forEach((f) => f && folder?.file(f.file.name, f.file))
 
   const date = new Intl.DateTimeFormat('fr-CA').format().replaceAll('-', '')
+  const suffix = [since && 'incremental', includeFiles || 'metadata']
+    .filter(Boolean)
+    .map((s) => `_${s}`)
+    .join('')
 
   return zip.generateAsync({ type: 'blob' }).then((content) => {
-    saveAs(content, `flow_backup_${date}.zip`)
+    saveAs(content, `flow_backup_${date}${suffix}.zip`)
   })
 }
 
@@ -116,20 +209,32 @@ export async function unpack(file: File) {
   const coversJSON = zip.file('covers.json')
   if (!booksJSON || !coversJSON) return
 
-  const books = deserializeData(await booksJSON.async('text'))
-
-  db?.books.bulkPut(books)
-
-  const coversText = await coversJSON.async('text')
-  db?.covers.bulkPut(JSON.parse(coversText))
-
-  const folder = zip.folder('files')
-  folder?.forEach(async (_, f) => {
-    const book = books.find((b) => `files/${b.name}` === f.name)
-    if (!book) return
+  let covers: CoverRecord[] = JSON.parse(
+    await unseal(await coversJSON.async('text')),
+  )
+  const books: BookRecord[] = []
+  const files: FileRecord[] = []
+  const data = await deserializeData(await booksJSON.async('text'))
+
+  for (let book of data.books) {
+    const f = zip.file(`files/${book.name}`)
+    if (f) {
+      const file = new File([await f.async('blob')], book.name)
+      // books of old backups may still use legacy uuid ids
+      const id = await hashFile(file)
+      if (id !== book.id) {
+        covers = covers.map((c) => (c.id === book.id ? { ...c, id } : c))
+        book = rekeyBook(book, id)
+      }
+      files.push({ id, file })
+    }
+    books.push(book)
+  }
 
-    const data = await f.async('blob')
-    const file = new File([data], book.name)
-    db?.files.put({ file, id: book.id })
+  previewRestore({
+    books,
+    covers,
+    files,
+    invalid: data.invalid.map((b) => b.name),
   })
 }
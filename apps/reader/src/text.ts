@@ -0,0 +1,344 @@
+import { buildEpub, EpubChapter, escapeXml } from './epub'
+
+// Convert `.txt` and `.md` files to EPUB
+
+const CHAPTER_PATTERN =
+  /^(第[0-9０-９零〇一二两三四五六七八九十百千万]+[章节回卷集部篇].{0,30}|chapter\s+[0-9ivxlcdm]+\b.{0,40}|(序章|楔子|引子|序言|前言|尾声|后记|番外).{0,20}|(prologue|epilogue)\b.{0,40})$/i
+
+// split chapters without headings into parts of roughly this length
+const PART_LENGTH = 20000
+
+const css = `p { text-indent: 2em; margin: 0.5em 0; }
+h1, h2, h3 { text-align: center; }
+pre { white-space: pre-wrap; }
+blockquote { margin-left: 1em; padding-left: 1em; border-left: 3px solid #ccc; }`
+
+export async function decodeText(file: Blob) {
+  const buffer = await file.arrayBuffer()
+  const bytes = new Uint8Array(buffer)
+
+  if (bytes[0] === 0xff && bytes[1] === 0xfe)
+    return new TextDecoder('utf-16le').decode(buffer)
+  if (bytes[0] === 0xfe && bytes[1] === 0xff)
+    return new TextDecoder('utf-16be').decode(buffer)
+
+  try {
+    // strips BOM of UTF-8
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer)
+  } catch {
+    // most non UTF-8 text we get is Chinese, `gbk` is decoded as `gb18030`
+    return new TextDecoder('gbk').decode(buffer)
+  }
+}
+
+function paragraphs(lines: string[]) {
+  return lines
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => `<p>${escapeXml(l)}</p>`)
+    .join('\n')
+}
+
+function splitParts(title: string, lines: string[]): EpubChapter[] {
+  const parts: EpubChapter[] = []
+  let part: string[] = []
+  let length = 0
+
+  const flush = () => {
+    if (!part.length) return
+    parts.push({ title, html: paragraphs(part) })
+    part = []
+    length = 0
+  }
+
+  for (const line of lines) {
+    part.push(line)
+    length += line.length
+    if (length > PART_LENGTH) flush()
+  }
+  flush()
+
+  if (parts.length > 1) {
+    parts.forEach((p, i) => (p.title = `${title} (${i + 1})`))
+  }
+  return parts
+}
+
+export function splitTextChapters(text: string, title: string) {
+  const chapters: EpubChapter[] = []
+  let heading: string | undefined
+  let lines: string[] = []
+
+  const flush = () => {
+    const body = heading
+      ? `<h2>${escapeXml(heading)}</h2>\n${paragraphs(lines)}`
+      : paragraphs(lines)
+    if (heading || lines.some((l) => l.trim())) {
+      chapters.push({ title: heading ?? title, html: body })
+    }
+    lines = []
+  }
+
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (CHAPTER_PATTERN.test(trimmed)) {
+      flush()
+      heading = trimmed
+    } else {
+      lines.push(line)
+    }
+  }
+  flush()
+
+  // no headings at all, avoid one huge section
+  if (chapters.length === 1 && !heading) {
+    return splitParts(title, text.split(/\r?\n/))
+  }
+  return chapters
+}
+
+const EMPHASIS: Record<string, string> = {
+  '**': 'strong',
+  __: 'strong',
+  '*': 'em',
+  _: 'em',
+}
+
+// an emphasis not closed yet, rendered as text if it's never closed
+interface InlineFrame {
+  marker: string
+  html: string
+}
+
+// index of the `close` matching the `open` at `start`, -1 if unbalanced
+function matching(text: string, start: number, open: string, close: string) {
+  let depth = 0
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === open) depth++
+    else if (text[i] === close && --depth === 0) return i
+  }
+  return -1
+}
+
+// `[label](url "title")` at `start`, parentheses in the url must be balanced
+function parseLink(text: string, start: number) {
+  const close = matching(text, start, '[', ']')
+  if (close < 0 || text[close + 1] !== '(') return
+  const end = matching(text, close + 1, '(', ')')
+  if (end < 0) return
+  const [url = ''] = text
+    .slice(close + 2, end)
+    .trim()
+    .split(/\s+/)
+  return { label: text.slice(start + 1, close), url, end: end + 1 }
+}
+
+// only web, mail and relative links, e.g. no `javascript:`
+function isSafeHref(url: string) {
+  const scheme = url.match(/^([a-z][a-z\d+.-]*):/i)?.[1]?.toLowerCase()
+  return !scheme || ['http', 'https', 'mailto'].includes(scheme)
+}
+
+function inlineMarkdown(text: string) {
+  const stack: InlineFrame[] = [{ marker: '', html: '' }]
+  const top = () => stack[stack.length - 1]!
+  const emit = (html: string) => (top().html += html)
+  // unclosed emphases down to `depth` are rendered as text
+  const unwind = (depth: number) => {
+    while (stack.length > depth) {
+      const { marker, html } = stack.pop()!
+      emit(escapeXml(marker) + html)
+    }
+  }
+
+  for (let i = 0; i < text.length; ) {
+    const char = text[i]!
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1)
+      if (end > i + 1) {
+        emit(`<code>${escapeXml(text.slice(i + 1, end))}</code>`)
+        i = end + 1
+        continue
+      }
+    }
+
+    const image = char === '!' && text[i + 1] === '['
+    if (char === '[' || image) {
+      const link = parseLink(text, image ? i + 1 : i)
+      if (link) {
+        // images are not embedded, only their alt text is kept
+        if (image) emit(escapeXml(link.label))
+        else {
+          const label = inlineMarkdown(link.label)
+          emit(
+            link.url && isSafeHref(link.url)
+              ? `<a href="${escapeXml(link.url)}">${label}</a>`
+              : label,
+          )
+        }
+        i = link.end
+        continue
+      }
+    }
+
+    if (char === '*' || char === '_') {
+      // in `***a***`, the inner emphasis is closed first
+      const marker =
+        text[i + 1] === char && top().marker !== char ? char + char : char
+      const prev = text[i - 1]
+      const next = text[i + marker.length]
+      // `_` inside words, e.g. `snake_case`, is not emphasis
+      const word = (c?: string) => char === '_' && !!c && /\w/.test(c)
+
+      let depth = stack.length - 1
+      while (depth > 0 && stack[depth]!.marker !== marker) depth--
+      if (depth > 0 && stack[depth]!.html && !/\s/.test(prev!) && !word(next)) {
+        // emphases opened inside are not closed, tags never cross
+        unwind(depth + 1)
+        const { html } = stack.pop()!
+        const tag = EMPHASIS[marker]
+        emit(`<${tag}>${html}</${tag}>`)
+        i += marker.length
+        continue
+      }
+      if (next && !/\s/.test(next) && !word(prev)) {
+        stack.push({ marker, html: '' })
+        i += marker.length
+        continue
+      }
+    }
+
+    emit(escapeXml(char))
+    i++
+  }
+
+  unwind(1)
+  return stack[0]!.html
+}
+
+// only the common subset of markdown, good enough for notes
+export function markdownToHtml(markdown: string) {
+  const html: string[] = []
+  const lines = markdown.split(/\r?\n/)
+  let paragraph: string[] = []
+  let list: { tag: 'ul' | 'ol'; items: string[] } | undefined
+
+  const flushParagraph = () => {
+    if (paragraph.length) {
+      html.push(`<p>${paragraph.map(inlineMarkdown).join('<br/>')}</p>`)
+      paragraph = []
+    }
+  }
+  const flushList = () => {
+    if (list) {
+      const items = list.items.map((i) => `<li>${inlineMarkdown(i)}</li>`)
+      html.push(`<${list.tag}>${items.join('')}</${list.tag}>`)
+      list = undefined
+    }
+  }
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+
+    if (line.startsWith('```')) {
+      flushParagraph()
+      flushList()
+      const code: string[] = []
+      while (++i < lines.length && !lines[i]!.startsWith('```')) {
+        code.push(lines[i]!)
+      }
+      html.push(`<pre><code>${escapeXml(code.join('\n'))}</code></pre>`)
+      continue
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line)
+    const item = /^\s*([-*+]|\d+\.)\s+(.*)$/.exec(line)
+    const quote = /^>\s?(.*)$/.exec(line)
+
+    if (heading) {
+      flushParagraph()
+      flushList()
+      const level = heading[1]!.length
+      html.push(`<h${level}>${inlineMarkdown(heading[2]!)}</h${level}>`)
+    } else if (item) {
+      flushParagraph()
+      const tag = /\d/.test(item[1]!) ? 'ol' : 'ul'
+      if (list?.tag !== tag) flushList()
+      list ??= { tag, items: [] }
+      list.items.push(item[2]!)
+    } else if (quote) {
+      flushParagraph()
+      flushList()
+      html.push(`<blockquote><p>${inlineMarkdown(quote[1]!)}</p></blockquote>`)
+    } else if (/^(-{3,}|\*{3,})\s*$/.test(line)) {
+      flushParagraph()
+      flushList()
+      html.push('<hr/>')
+    } else if (line.trim()) {
+      flushList()
+      paragraph.push(line.trim())
+    } else {
+      flushParagraph()
+      flushList()
+    }
+  }
+  flushParagraph()
+  flushList()
+
+  return html.join('\n')
+}
+
+export function splitMarkdownChapters(markdown: string, title: string) {
+  const chapters: EpubChapter[] = []
+  let heading: string | undefined
+  let lines: string[] = []
+  let fenced = false
+
+  const flush = () => {
+    const source = lines.join('\n')
+    if (heading || source.trim()) {
+      chapters.push({
+        title: heading ?? title,
+        html: markdownToHtml(source),
+      })
+    }
+    lines = []
+  }
+
+  for (const line of markdown.split(/\r?\n/)) {
+    if (line.startsWith('```')) fenced = !fenced
+
+    const match = fenced ? null : /^#{1,2}\s+(.*)$/.exec(line)
+    if (match) {
+      flush()
+      heading = match[1]!.replace(/[*_`]/g, '').trim()
+    }
+    lines.push(line)
+  }
+  flush()
+
+  return chapters
+}
+
+function basename(name: string) {
+  return name.replace(/\.[^.]+$/, '')
+}
+
+export async function textToEpub(file: File) {
+  const title = basename(file.name) || 'Untitled'
+  const text = await decodeText(file)
+  const markdown = /\.(md|markdown)$/i.test(file.name)
+
+  const chapters = markdown
+    ? splitMarkdownChapters(text, title)
+    : splitTextChapters(text, title)
+
+  return buildEpub({
+    title,
+    // guess from the content, since text files have no metadata
+    language: /[一-龥]/.test(text.slice(0, 1000)) ? 'zh' : 'en',
+    chapters: chapters.length ? chapters : [{ title, html: '' }],
+    css: markdown ? '' : css,
+  })
+}
@@ -20,3 +20,26 @@ interface Window {
   launchQueue: LaunchQueue
   queryLocalFonts: () => Promise<LocalFont[]>
 }
+
+// Type declarations for File System Access API, used by the local folder
+// sync provider
+
+interface FileSystemWritableFileStream extends WritableStream {
+  write(data: Blob | string): Promise<void>
+}
+
+interface FileSystemFileHandle {
+  createWritable(): Promise<FileSystemWritableFileStream>
+}
+
+interface FileSystemDirectoryHandle {
+  values(): AsyncIterableIterator<
+    FileSystemFileHandle | FileSystemDirectoryHandle
+  >
+}
+
+interface Window {
+  showDirectoryPicker?: (options?: {
+    mode?: 'read' | 'readwrite'
+  }) => Promise<FileSystemDirectoryHandle>
+}
@@ -0,0 +1,346 @@
+import { saveAs } from 'file-saver'
+
+import { EpubCFI } from '@flow/epubjs'
+
+import { TextPosition, TextQuote } from './anchor'
+import {
+  Annotation,
+  AnnotationColorOption,
+  AnnotationType,
+  defaultAnnotationColors,
+  findAnnotationColor,
+  typeMap,
+} from './annotation'
+import { Bookmark } from './bookmark'
+import { BookRecord } from './db'
+import { ImportedBookmark, ImportedHighlight } from './importer'
+import { markdownFilename } from './markdown'
+import { bookMetadata } from './metadata'
+import { getSettings } from './state'
+import { keys } from './utils'
+
+// Annotations and bookmarks in the W3C Web Annotation Data Model, see
+// https://www.w3.org/TR/annotation-model/. Each targets its book with an
+// EPUB CFI `FragmentSelector` and, for highlights, a `TextQuoteSelector`,
+// so that other tools can anchor them in their own editions. Types and
+// colors of highlights are classes of a CSS stylesheet.
+
+const CONTEXT = 'http://www.w3.org/ns/anno.jsonld'
+const CFI_SPEC = 'http://www.idpf.org/epub/linking/cfi/epub-cfi.html'
+
+type Motivation = 'highlighting' | 'commenting' | 'bookmarking'
+
+interface TextualBody {
+  type: 'TextualBody'
+  value: string
+  format?: string
+  purpose?: 'commenting' | 'tagging' | 'describing'
+}
+
+interface FragmentSelector {
+  type: 'FragmentSelector'
+  conformsTo?: string
+  value: string
+}
+
+interface TextQuoteSelector extends Partial<TextQuote> {
+  type: 'TextQuoteSelector'
+}
+
+type Selector = FragmentSelector | TextQuoteSelector
+
+interface Source {
+  id: string
+  type?: string
+  format?: string
+  // not in the model, used to match books of other libraries
+  title?: string
+  creator?: string[]
+}
+
+export interface WebAnnotation {
+  '@context'?: string
+  id: string
+  type: 'Annotation'
+  motivation?: Motivation
+  created?: string
+  modified?: string
+  body?: TextualBody | TextualBody[]
+  target: {
+    source: Source | string
+    selector?: Selector | Selector[]
+    styleClass?: string
+  }
+  stylesheet?: { type: 'CssStylesheet'; value: string }
+}
+
+interface AnnotationCollection {
+  '@context': string
+  type: 'AnnotationCollection'
+  label: string
+  total: number
+  first: {
+    type: 'AnnotationPage'
+    items: WebAnnotation[]
+  }
+}
+
+function date(time: number) {
+  return new Date(time).toISOString()
+}
+
+// books are identified by the SHA-256 of their files, see `hashFile`, and
+// by uuids in older libraries
+function bookUrn(id: string) {
+  return /^[0-9a-f]{64}$/.test(id) ? `urn:sha256:${id}` : `urn:uuid:${id}`
+}
+
+function source(book: BookRecord): Source {
+  const { title, creators } = bookMetadata(book)
+  return {
+    id: bookUrn(book.id),
+    type: 'Text',
+    format: 'application/epub+zip',
+    title,
+    creator: creators.length ? creators : undefined,
+  }
+}
+
+function stylesheet(colors: AnnotationColorOption[]) {
+  return {
+    type: 'CssStylesheet' as const,
+    value: [
+      '.highlight { background-color: var(--color); }',
+      '.underline { text-decoration: underline var(--color); }',
+      '.strikethrough { text-decoration: line-through var(--color); }',
+      '.squiggly { text-decoration: underline wavy var(--color); }',
+      ...colors.map(
+        ({ id, color }) => `.${CSS.escape(id)} { --color: ${color}; }`,
+      ),
+    ].join('\n'),
+  }
+}
+
+function annotationToWeb(
+  book: BookRecord,
+  annotation: Annotation,
+  colors: AnnotationColorOption[],
+): WebAnnotation {
+  const { label } = findAnnotationColor(colors, annotation.color)
+  const body: TextualBody[] = []
+  if (annotation.notes) {
+    body.push({
+      type: 'TextualBody',
+      value: annotation.notes,
+      format: 'text/plain',
+      purpose: 'commenting',
+    })
+  }
+  if (label)
+    body.push({ type: 'TextualBody', value: label, purpose: 'tagging' })
+
+  return {
+    id: `urn:uuid:${annotation.id}`,
+    type: 'Annotation',
+    motivation: annotation.notes ? 'commenting' : 'highlighting',
+    created: date(annotation.createAt),
+    modified: date(annotation.updatedAt),
+    body: body.length ? body : undefined,
+    target: {
+      source: source(book),
+      selector: [
+        {
+          type: 'FragmentSelector',
+          conformsTo: CFI_SPEC,
+          value: annotation.cfi,
+        },
+        {
+          type: 'TextQuoteSelector',
+          ...(annotation.quote ?? { exact: annotation.text }),
+        },
+      ],
+      styleClass: `${annotation.type} ${annotation.color}`,
+    },
+  }
+}
+
+function bookmarkToWeb(book: BookRecord, bookmark: Bookmark): WebAnnotation {
+  return {
+    id: `urn:uuid:${bookmark.id}`,
+    type: 'Annotation',
+    motivation: 'bookmarking',
+    created: date(bookmark.createdAt),
+    modified: date(bookmark.updatedAt),
+    body: bookmark.title
+      ? { type: 'TextualBody', value: bookmark.title, purpose: 'describing' }
+      : undefined,
+    target: {
+      source: source(book),
+      selector: [
+        { type: 'FragmentSelector', conformsTo: CFI_SPEC, value: bookmark.cfi },
+        { type: 'TextQuoteSelector', exact: bookmark.excerpt },
+      ],
+    },
+  }
+}
+
+export function booksToWebAnnotations(
+  books: BookRecord[],
+  settings = getSettings(),
+): AnnotationCollection {
+  const colors = settings.annotationColors ?? defaultAnnotationColors
+  const items = books.flatMap((book) => [
+    ...book.annotations.map((a) => annotationToWeb(book, a, colors)),
+    ...(book.bookmarks ?? []).map((b) => bookmarkToWeb(book, b)),
+  ])
+  const stylesheetOf = stylesheet(colors)
+
+  return {
+    '@context': CONTEXT,
+    type: 'AnnotationCollection',
+    label:
+      books.length === 1 ? bookMetadata(books[0]!).title : 'Flow annotations',
+    total: items.length,
+    first: {
+      type: 'AnnotationPage',
+      // the stylesheet is repeated, as annotations may be read one by one
+      items: items.map((i) =>
+        i.target.styleClass ? { ...i, stylesheet: stylesheetOf } : i,
+      ),
+    },
+  }
+}
+
+export function downloadWebAnnotations(books: BookRecord[]) {
+  const blob = new Blob(
+    [JSON.stringify(booksToWebAnnotations(books), null, 2)],
+    { type: 'application/ld+json' },
+  )
+  const date = new Intl.DateTimeFormat('fr-CA').format().replaceAll('-', '')
+  saveAs(
+    blob,
+    books.length === 1
+      ? markdownFilename(books[0]!).replace(/\.md$/, '.jsonld')
+      : `flow_annotations_${date}.jsonld`,
+  )
+}
+
+// import
+
+function array<T>(value?: T | T[]) {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value]
+}
+
+function time(value?: string) {
+  const t = Date.parse(value ?? '')
+  return isNaN(t) ? undefined : t
+}
+
+function textBody(annotation: WebAnnotation, purpose: TextualBody['purpose']) {
+  return array(annotation.body)
+    .filter(
+      (b) =>
+        typeof b === 'object' &&
+        typeof b.value === 'string' &&
+        (b.purpose ?? 'commenting') === purpose,
+    )
+    .map((b) => b.value)
+    .join('\n')
+}
+
+// e.g. `epubcfi(/6/4!/4/2,/1:0,/1:10)`
+function cfiToPosition(cfi: string): TextPosition | undefined {
+  const match = cfi.match(/^epubcfi\([^!]*!([^,]*)(?:,([^,]*),([^,]*))?\)$/)
+  if (!match) return
+  const [, path, start = '', end = ''] = match
+  try {
+    const spine = new EpubCFI(cfi).spinePos
+    return { spine, cfi: [path + start, path + end] }
+  } catch {
+    return
+  }
+}
+
+function styleOf(annotation: WebAnnotation, colors: AnnotationColorOption[]) {
+  const classes = annotation.target.styleClass?.split(/\s+/) ?? []
+  return {
+    type: classes.find((c): c is AnnotationType =>
+      keys(typeMap).includes(c as AnnotationType),
+    ),
+    color: classes.find((c) => colors.some((o) => o.id === c)),
+  }
+}
+
+function items(json: any): WebAnnotation[] {
+  if (Array.isArray(json)) return json
+  if (json?.type === 'Annotation') return [json]
+  if (json?.type === 'AnnotationPage') return json.items ?? []
+  if (json?.type === 'AnnotationCollection') return json.first?.items ?? []
+  throw new Error('Invalid Web Annotations')
+}
+
+export function isWebAnnotations(json: any) {
+  return typeof json === 'object' && !!json?.['@context']
+}
+
+export function parseWebAnnotations(content: string, settings = getSettings()) {
+  const colors = settings.annotationColors ?? defaultAnnotationColors
+  const highlights: ImportedHighlight[] = []
+  const bookmarks: ImportedBookmark[] = []
+
+  items(JSON.parse(content)).forEach((a) => {
+    if (a?.type !== 'Annotation' || !a.target) return
+
+    const source =
+      typeof a.target.source === 'string'
+        ? { id: a.target.source }
+        : a.target.source
+    const book = {
+      title: source?.title ?? '',
+      author: source?.creator?.join(', '),
+      bookId: source?.id?.match(/^urn:(?:sha256|uuid):(.+)$/)?.[1],
+    }
+    const selectors = array(a.target.selector)
+    const cfi = selectors.find(
+      (s): s is FragmentSelector =>
+        s.type === 'FragmentSelector' &&
+        typeof s.value === 'string' &&
+        s.value.startsWith('epubcfi('),
+    )?.value
+    const quote = selectors.find(
+      (s): s is TextQuoteSelector => s.type === 'TextQuoteSelector',
+    )
+    const createdAt = time(a.created)
+
+    if (a.motivation === 'bookmarking') {
+      if (!cfi) return
+      let spine = 0
+      try {
+        spine = new EpubCFI(cfi).spinePos
+      } catch {
+        return
+      }
+      bookmarks.push({
+        ...book,
+        cfi,
+        spine: { index: spine, title: '' },
+        excerpt: quote?.exact ?? '',
+        name: textBody(a, 'describing') || undefined,
+        createdAt,
+      })
+      return
+    }
+
+    if (!quote?.exact) return
+    highlights.push({
+      ...book,
+      text: quote.exact,
+      notes: textBody(a, 'commenting') || undefined,
+      createdAt,
+      ...styleOf(a, colors),
+      position: cfi ? cfiToPosition(cfi) : undefined,
+    })
+  })
+
+  return { highlights, bookmarks }
+}
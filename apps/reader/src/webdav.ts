@@ -0,0 +1,153 @@
+import { ConflictError, NotFoundError } from './providers/types'
+import { getSettings, Settings } from './state'
+
+// Client of the WebDAV library folder, laid out like the Dropbox app
+// folder: `data.json` at the root and book files in `files/`.
+
+export interface WebdavConfig {
+  // with a trailing slash
+  url: string
+  username?: string
+  password?: string
+}
+
+export interface WebdavFile {
+  name: string
+  size: number
+  modifiedAt?: number
+  etag?: string
+}
+
+const DAV = 'DAV:'
+
+export function webdavConfig(
+  settings: Settings = getSettings(),
+): WebdavConfig | undefined {
+  const { webdavEnabled, webdavLibraryUrl, webdavUsername, webdavPassword } =
+    settings
+  if (!webdavEnabled || !webdavLibraryUrl) return
+
+  return {
+    url: webdavLibraryUrl.replace(/\/?$/, '/'),
+    username: webdavUsername,
+    password: webdavPassword,
+  }
+}
+
+function resolve(config: WebdavConfig, path: string) {
+  return config.url + path.split('/').map(encodeURIComponent).join('/')
+}
+
+async function webdavFetch(
+  config: WebdavConfig,
+  method: string,
+  path: string,
+  { headers = {}, body }: { headers?: Record<string, string>; body?: BodyInit },
+) {
+  const url = resolve(config, path)
+  if (config.username || config.password) {
+    const credentials = new TextEncoder().encode(
+      `${config.username ?? ''}:${config.password ?? ''}`,
+    )
+    headers.Authorization = `Basic ${btoa(String.fromCharCode(...credentials))}`
+  }
+
+  try {
+    return await fetch(url, { method, headers, body })
+  } catch {
+    // most servers, e.g. Nextcloud, don't allow CORS
+    return fetch('/api/webdav', {
+      method: 'POST',
+      headers: { ...headers, 'X-WebDAV-URL': url, 'X-WebDAV-Method': method },
+      body,
+    })
+  }
+}
+
+function assertOk(res: Response, method: string, path: string) {
+  if (!res.ok) {
+    throw new Error(`WebDAV ${method} ${path}: HTTP ${res.status}`)
+  }
+}
+
+function parseMultistatus(xml: string) {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  const files: WebdavFile[] = []
+
+  Array.from(doc.getElementsByTagNameNS(DAV, 'response')).forEach((r) => {
+    const prop = (name: string) =>
+      r.getElementsByTagNameNS(DAV, name)[0]?.textContent ?? undefined
+    const isCollection = r.getElementsByTagNameNS(DAV, 'collection').length > 0
+    const href = prop('href')
+    if (!href || isCollection) return
+
+    const modified = prop('getlastmodified')
+    files.push({
+      name: decodeURIComponent(href.replace(/\/$/, '').split('/').pop()!),
+      size: Number(prop('getcontentlength') ?? 0),
+      modifiedAt: modified ? Date.parse(modified) : undefined,
+      etag: prop('getetag'),
+    })
+  })
+
+  return files
+}
+
+// files in the folder at `path`, without subfolders
+export async function webdavList(config: WebdavConfig, path: string) {
+  const res = await webdavFetch(config, 'PROPFIND', path.replace(/\/?$/, '/'), {
+    headers: { Depth: '1', 'Content-Type': 'application/xml' },
+    body: `<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getcontentlength/><d:getlastmodified/><d:getetag/><d:resourcetype/></d:prop></d:propfind>`,
+  })
+  // the folder is created on the first upload
+  if (res.status === 404) return []
+  assertOk(res, 'PROPFIND', path)
+  return parseMultistatus(await res.text())
+}
+
+export async function webdavGet(config: WebdavConfig, path: string) {
+  const res = await webdavFetch(config, 'GET', path, {})
+  if (res.status === 404) throw new NotFoundError(path)
+  assertOk(res, 'GET', path)
+  return { data: await res.blob(), etag: res.headers.get('etag') ?? undefined }
+}
+
+// `path` of a folder, '' for the library folder itself
+async function webdavMkcol(config: WebdavConfig, path: string) {
+  const res = await webdavFetch(config, 'MKCOL', path && `${path}/`, {})
+  // 405 if it already exists
+  if (res.status !== 405) assertOk(res, 'MKCOL', path)
+}
+
+// only if the file still has `etag` if given, returns the new ETag, which
+// some servers don't send
+export async function webdavPut(
+  config: WebdavConfig,
+  path: string,
+  body: Blob | string,
+  etag?: string,
+) {
+  const put = () =>
+    webdavFetch(config, 'PUT', path, {
+      headers: etag ? { 'If-Match': etag } : {},
+      body,
+    })
+
+  let res = await put()
+  // 409 if the parent folder doesn't exist
+  if (res.status === 409) {
+    const parents = path.split('/').slice(0, -1)
+    for (let i = 0; i <= parents.length; i++) {
+      await webdavMkcol(config, parents.slice(0, i).join('/'))
+    }
+    res = await put()
+  }
+  if (res.status === 412) throw new ConflictError(path)
+  assertOk(res, 'PUT', path)
+  return res.headers.get('etag') ?? undefined
+}
+
+export async function webdavDelete(config: WebdavConfig, path: string) {
+  const res = await webdavFetch(config, 'DELETE', path, {})
+  if (res.status !== 404) assertOk(res, 'DELETE', path)
+}
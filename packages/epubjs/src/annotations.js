@@ -23,7 +23,7 @@ class Annotations {
 
   /**
    * Add an annotation to store
-   * @param {string} type Type of annotation to add: "highlight", "underline", "mark"
+   * @param {string} type Type of annotation to add: "highlight", "underline", "strikethrough", "squiggly", "mark"
    * @param {EpubCFI} cfiRange EpubCFI range to attach annotation to
    * @param {object} data Data to assign to annotation
    * @param {function} [cb] Callback after annotation is added
@@ -67,7 +67,7 @@ class Annotations {
   /**
    * Remove an annotation from store
    * @param {EpubCFI} cfiRange EpubCFI range the annotation is attached to
-   * @param {string} type Type of annotation to add: "highlight", "underline", "mark"
+   * @param {string} type Type of annotation to add: "highlight", "underline", "strikethrough", "squiggly", "mark"
    */
   remove(cfiRange, type) {
     let hash = encodeURI(cfiRange + type)
@@ -133,6 +133,30 @@ class Annotations {
     return this.add('underline', cfiRange, data, cb, className, styles)
   }
 
+  /**
+   * Add a strikethrough to the store
+   * @param {EpubCFI} cfiRange EpubCFI range to attach annotation to
+   * @param {object} data Data to assign to annotation
+   * @param {function} cb Callback after annotation is clicked
+   * @param {string} className CSS class to assign to annotation
+   * @param {object} styles CSS styles to assign to annotation
+   */
+  strikethrough(cfiRange, data, cb, className, styles) {
+    return this.add('strikethrough', cfiRange, data, cb, className, styles)
+  }
+
+  /**
+   * Add a wavy underline to the store
+   * @param {EpubCFI} cfiRange EpubCFI range to attach annotation to
+   * @param {object} data Data to assign to annotation
+   * @param {function} cb Callback after annotation is clicked
+   * @param {string} className CSS class to assign to annotation
+   * @param {object} styles CSS styles to assign to annotation
+   */
+  squiggly(cfiRange, data, cb, className, styles) {
+    return this.add('squiggly', cfiRange, data, cb, className, styles)
+  }
+
   /**
    * Add a mark to the store
    * @param {EpubCFI} cfiRange EpubCFI range to attach annotation to
@@ -199,7 +223,7 @@ class Annotations {
  * Annotation object
  * @class
  * @param {object} options
- * @param {string} options.type Type of annotation to add: "highlight", "underline", "mark"
+ * @param {string} options.type Type of annotation to add: "highlight", "underline", "strikethrough", "squiggly", "mark"
  * @param {EpubCFI} options.cfiRange EpubCFI range to attach annotation to
  * @param {object} options.data Data to assign to annotation
  * @param {int} options.sectionIndex Index in the Spine of the Section annotation belongs to
@@ -240,6 +264,10 @@ class Annotation {
       result = view.highlight(cfiRange, data, cb, className, styles)
     } else if (type === 'underline') {
       result = view.underline(cfiRange, data, cb, className, styles)
+    } else if (type === 'strikethrough') {
+      result = view.strikethrough(cfiRange, data, cb, className, styles)
+    } else if (type === 'squiggly') {
+      result = view.squiggly(cfiRange, data, cb, className, styles)
     } else if (type === 'mark') {
       result = view.mark(cfiRange, data, cb)
     }
@@ -262,6 +290,10 @@ class Annotation {
         result = view.unhighlight(cfiRange)
       } else if (type === 'underline') {
         result = view.ununderline(cfiRange)
+      } else if (type === 'strikethrough') {
+        result = view.unstrikethrough(cfiRange)
+      } else if (type === 'squiggly') {
+        result = view.unsquiggly(cfiRange)
       } else if (type === 'mark') {
         result = view.unmark(cfiRange)
       }
@@ -1,8 +1,9 @@
 import EventEmitter from 'event-emitter'
-import { Pane, Highlight, Underline } from 'marks-pane'
+import { Pane, Highlight } from 'marks-pane'
 
 import Contents from '../../contents'
 import EpubCFI from '../../epubcfi'
+import { Decoration } from '../../marks'
 import { EVENTS } from '../../utils/constants'
 import {
   extend,
@@ -15,6 +16,13 @@ import {
   revokeBlobUrl,
 } from '../../utils/core'
 
+// stored marks of each `Decoration` style
+const DECORATIONS = {
+  underline: 'underlines',
+  strikethrough: 'strikethroughs',
+  squiggly: 'squigglies',
+}
+
 class IframeView {
   constructor(section, options) {
     this.settings = extend(
@@ -60,6 +68,8 @@ class IframeView {
     this.pane = undefined
     this.highlights = {}
     this.underlines = {}
+    this.strikethroughs = {}
+    this.squigglies = {}
     this.marks = {}
   }
 
@@ -649,6 +659,18 @@ class IframeView {
   }
 
   underline(cfiRange, data = {}, cb, className = 'epubjs-ul', styles = {}) {
+    return this.decorate('underline', cfiRange, data, cb, className, styles)
+  }
+
+  strikethrough(cfiRange, data = {}, cb, className = 'epubjs-st', styles = {}) {
+    return this.decorate('strikethrough', cfiRange, data, cb, className, styles)
+  }
+
+  squiggly(cfiRange, data = {}, cb, className = 'epubjs-sq', styles = {}) {
+    return this.decorate('squiggly', cfiRange, data, cb, className, styles)
+  }
+
+  decorate(style, cfiRange, data, cb, className, styles) {
     if (!this.contents) {
       return
     }
@@ -671,10 +693,10 @@ class IframeView {
       this.pane = new Pane(this.iframe, this.element)
     }
 
-    let m = new Underline(range, className, data, attributes)
+    let m = new Decoration(range, className, data, attributes, style)
     let h = this.pane.addMark(m)
 
-    this.underlines[cfiRange] = {
+    this[DECORATIONS[style]][cfiRange] = {
       mark: h,
       element: h.element,
       listeners: [emitter, cb],
@@ -804,9 +826,22 @@ class IframeView {
   }
 
   ununderline(cfiRange) {
+    this.undecorate('underline', cfiRange)
+  }
+
+  unstrikethrough(cfiRange) {
+    this.undecorate('strikethrough', cfiRange)
+  }
+
+  unsquiggly(cfiRange) {
+    this.undecorate('squiggly', cfiRange)
+  }
+
+  undecorate(style, cfiRange) {
+    const items = this[DECORATIONS[style]]
     let item
-    if (cfiRange in this.underlines) {
-      item = this.underlines[cfiRange]
+    if (cfiRange in items) {
+      item = items[cfiRange]
       this.pane.removeMark(item.mark)
       item.listeners.forEach((l) => {
         if (l) {
@@ -814,7 +849,7 @@ class IframeView {
           item.element.removeEventListener('touchstart', l)
         }
       })
-      delete this.underlines[cfiRange]
+      delete items[cfiRange]
     }
   }
 
@@ -838,8 +873,10 @@ class IframeView {
       this.unhighlight(cfiRange)
     }
 
-    for (let cfiRange in this.underlines) {
-      this.ununderline(cfiRange)
+    for (let style in DECORATIONS) {
+      for (let cfiRange in this[DECORATIONS[style]]) {
+        this.undecorate(style, cfiRange)
+      }
     }
 
     for (let cfiRange in this.marks) {
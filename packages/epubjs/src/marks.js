@@ -0,0 +1,74 @@
+import { Highlight } from 'marks-pane'
+
+const SVG_NS = 'http://www.w3.org/2000/svg'
+
+// half of the wavelength of "squiggly" lines
+const WAVE = 3
+
+/**
+ * Text decoration drawn over the client rects of a range, so that it wraps
+ * with lines and columns like `Highlight`. Unlike `Underline` of marks-pane,
+ * the lines are stroked with the `stroke` of the mark, and the rects are
+ * transparent but painted to receive clicks.
+ * @param {Range} range
+ * @param {string} className
+ * @param {object} data
+ * @param {object} attributes
+ * @param {string} style "underline", "strikethrough" or "squiggly"
+ * @class
+ */
+export class Decoration extends Highlight {
+  constructor(range, className, data, attributes, style = 'underline') {
+    super(range, className, data, attributes)
+    this.style = style
+  }
+
+  render() {
+    while (this.element.firstChild) {
+      this.element.removeChild(this.element.firstChild)
+    }
+
+    const doc = this.element.ownerDocument
+    const docFrag = doc.createDocumentFragment()
+    const offset = this.element.getBoundingClientRect()
+    const container = this.container.getBoundingClientRect()
+
+    this.filteredRanges().forEach((r) => {
+      const x = r.left - offset.left + container.left
+      const y = r.top - offset.top + container.top
+
+      const rect = doc.createElementNS(SVG_NS, 'rect')
+      rect.setAttribute('x', x)
+      rect.setAttribute('y', y)
+      rect.setAttribute('height', r.height)
+      rect.setAttribute('width', r.width)
+      rect.setAttribute('fill', 'transparent')
+      rect.setAttribute('stroke', 'none')
+      docFrag.appendChild(rect)
+
+      const line = doc.createElementNS(SVG_NS, 'path')
+      line.setAttribute('fill', 'none')
+      line.setAttribute('d', this.path(x, y, r.width, r.height))
+      docFrag.appendChild(line)
+    })
+
+    this.element.appendChild(docFrag)
+  }
+
+  path(x, y, width, height) {
+    if (this.style === 'strikethrough') {
+      const middle = y + height / 2
+      return `M ${x} ${middle} h ${width}`
+    }
+
+    const bottom = y + height - 1
+    if (this.style === 'squiggly') {
+      const waves = Math.max(1, Math.round(width / WAVE))
+      const step = width / waves
+      let d = `M ${x} ${bottom} q ${step / 2} ${-WAVE / 2} ${step} 0`
+      for (let i = 1; i < waves; i++) d += ` t ${step} 0`
+      return d
+    }
+    return `M ${x} ${bottom} h ${width}`
+  }
+}
@@ -31,6 +31,22 @@ export default class Annotations {
     styles?: object,
   ): Annotation
 
+  strikethrough(
+    cfiRange: string,
+    data?: object,
+    cb?: Function,
+    className?: string,
+    styles?: object,
+  ): Annotation
+
+  squiggly(
+    cfiRange: string,
+    data?: object,
+    cb?: Function,
+    className?: string,
+    styles?: object,
+  ): Annotation
+
   mark(cfiRange: string, data?: object, cb?: Function): void
 
   each(): Array<Annotation>
@@ -106,7 +106,7 @@ export default class Contents {
 
   textWidth(): number
 
-  viewport(options: ViewportSettings): ViewportSettings
+  viewport(options?: ViewportSettings): ViewportSettings
 
   width(): number
   width(w: number): number
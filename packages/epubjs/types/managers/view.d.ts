@@ -17,6 +17,8 @@ export interface ViewSettings {
 export default class View {
   constructor(section: Section, options: ViewSettings)
 
+  contents?: Contents
+
   create(): any
 
   render(request?: Function, show?: boolean): Promise<void>
@@ -25,6 +27,8 @@ export default class View {
 
   size(_width: number, _height: number): void
 
+  reframe(width: number, height: number): void
+
   load(content: Contents): Promise<any>
 
   setLayout(layout: Layout): void
@@ -69,12 +73,32 @@ export default class View {
     styles?: object,
   ): void
 
+  strikethrough(
+    cfiRange: string,
+    data?: object,
+    cb?: Function,
+    className?: string,
+    styles?: object,
+  ): void
+
+  squiggly(
+    cfiRange: string,
+    data?: object,
+    cb?: Function,
+    className?: string,
+    styles?: object,
+  ): void
+
   mark(cfiRange: string, data?: object, cb?: Function): void
 
   unhighlight(cfiRange: string): void
 
   ununderline(cfiRange: string): void
 
+  unstrikethrough(cfiRange: string): void
+
+  unsquiggly(cfiRange: string): void
+
   unmark(cfiRange: string): void
 
   destroy(): void